@@ -48,6 +48,7 @@ const project = new AwsCdkConstructLibrary({
     'lodash@4.17.21',
     'fs-extra',
     'minimatch',
+    'yaml@1.10.2',
   ] /* Dependencies that must be bundled into this module. */,
   devDeps: [
     '@kikoda/generated-config',
@@ -1,14 +1,119 @@
-import { BuildSpec } from 'aws-cdk-lib/aws-codebuild';
+import { BuildSpec, mergeBuildSpecs } from 'aws-cdk-lib/aws-codebuild';
+import { Effect, PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { CodeBuildOptions } from 'aws-cdk-lib/pipelines';
+import type { PipelineConfig } from './component-pipeline-stack';
+
+/**
+ * A role to assume.
+ *
+ * @export
+ * @interface AssumeRoleConfig
+ * @typedef {AssumeRoleConfig}
+ */
+export interface AssumeRoleConfig {
+  /**
+   * The arn of the role to assume.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly roleArn: string;
+  /**
+   * The external ID required by the trust policy of the role.
+   *
+   * @readonly
+   * @type {?string}
+   */
+  readonly externalId?: string;
+  /**
+   * The name of the role session, shows up in CloudTrail.
+   *
+   * @readonly
+   * @type {?string}
+   * @default 'codebuild'
+   */
+  readonly sessionName?: string;
+}
+
+/**
+ * Properties for the AssumeRolePartialBuildSpec.
+ *
+ * @export
+ * @interface AssumeRolePartialBuildSpecProps
+ * @typedef {AssumeRolePartialBuildSpecProps}
+ * @extends {AssumeRoleConfig}
+ */
+export interface AssumeRolePartialBuildSpecProps extends AssumeRoleConfig {
+  /**
+   * The duration of the role sessions in seconds. The credentials are refreshed automatically when
+   * the build runs longer than the session, unless they are exported.
+   *
+   * @readonly
+   * @type {?number}
+   * @default 3600
+   */
+  readonly durationSeconds?: number;
+  /**
+   * Roles to assume in order after `roleArn`, each one is assumed with the credentials of the
+   * previous role.
+   *
+   * @readonly
+   * @type {?AssumeRoleConfig[]}
+   */
+  readonly roleChain?: AssumeRoleConfig[];
+  /**
+   * Export the credentials as `AWS_ACCESS_KEY_ID`, `AWS_SECRET_ACCESS_KEY` and `AWS_SESSION_TOKEN`,
+   * ex. to pass them to a docker build call. Exported credentials are not refreshed.
+   *
+   * @readonly
+   * @type {?boolean}
+   * @default false
+   */
+  readonly exportCredentials?: boolean;
+}
 
 /**
  * The partial buildspec that includes commands to assume a role and pass credentials to a docker build call.
  * This is designed to be used with CodePipelineProps.assetPublishingCodeBuildDefaults.partialBuildSpec.
  *
+ * The roles are configured as AWS CLI profiles sourced from the CodeBuild container credentials, so
+ * the AWS CLI and SDKs refresh the credentials when the session expires.
+ *
  * @export
  * @class AssumeRolePartialBuildSpec
  * @typedef {AssumeRolePartialBuildSpec}
  */
 export class AssumeRolePartialBuildSpec {
+  /**
+   * Apply the partial buildspec, and the permission to assume the role, to the synth and asset
+   * publishing CodeBuild defaults of a pipeline config.
+   *
+   * @public
+   * @static
+   * @param {PipelineConfig} pipelineConfig
+   * @param {(string | AssumeRolePartialBuildSpecProps)} props - The role arn or the properties.
+   * @returns {PipelineConfig} a copy of the pipeline config
+   */
+  public static applyToPipelineConfig(
+    pipelineConfig: PipelineConfig,
+    props: string | AssumeRolePartialBuildSpecProps,
+  ): PipelineConfig {
+    const assumeRole = new AssumeRolePartialBuildSpec(props);
+    const apply = (options: CodeBuildOptions = {}): CodeBuildOptions => ({
+      ...options,
+      partialBuildSpec: options.partialBuildSpec
+        ? mergeBuildSpecs(options.partialBuildSpec, assumeRole.partialBuildSpec)
+        : assumeRole.partialBuildSpec,
+      rolePolicy: [...(options.rolePolicy ?? []), ...assumeRole.rolePolicy],
+    });
+
+    return {
+      ...pipelineConfig,
+      synthCodeBuildDefaults: apply(pipelineConfig.synthCodeBuildDefaults),
+      assetPublishingCodeBuildDefaults: apply(pipelineConfig.assetPublishingCodeBuildDefaults),
+    };
+  }
+
   /**
    * The partial buildspec. This is designed to be used with CodePipelineProps.assetPublishingCodeBuildDefaults.partialBuildSpec.
    *
@@ -16,26 +121,70 @@ export class AssumeRolePartialBuildSpec {
    * @type {BuildSpec}
    */
   public partialBuildSpec: BuildSpec;
+  /**
+   * The policy statements the CodeBuild project needs to assume the role.
+   *
+   * @public
+   * @readonly
+   * @type {PolicyStatement[]}
+   */
+  public readonly rolePolicy: PolicyStatement[];
   /**
    * Creates an instance of AssumeRolePartialBuildSpec.
    *
    * @constructor
-   * @param {string} roleArn
+   * @param {(string | AssumeRolePartialBuildSpecProps)} props - The role arn or the properties. A
+   * role arn exports the credentials for backwards compatibility.
    */
-  constructor(roleArn: string) {
+  constructor(props: string | AssumeRolePartialBuildSpecProps) {
+    const {
+      roleArn,
+      durationSeconds = 3600,
+      roleChain = [],
+      exportCredentials = false,
+    } = typeof props === 'string' ? { roleArn: props, exportCredentials: true } : props;
+    const roles: AssumeRoleConfig[] = [
+      typeof props === 'string' ? { roleArn } : props,
+      ...roleChain,
+    ];
+
+    const commands: string[] = [];
+    roles.forEach((role, index) => {
+      const profile = `--profile assume-role-${index}`;
+      commands.push(
+        `aws configure set role_arn ${role.roleArn} ${profile}`,
+        index === 0
+          ? `aws configure set credential_source EcsContainer ${profile}`
+          : `aws configure set source_profile assume-role-${index - 1} ${profile}`,
+        `aws configure set role_session_name ${role.sessionName ?? 'codebuild'} ${profile}`,
+        `aws configure set duration_seconds ${durationSeconds} ${profile}`,
+      );
+      if (role.externalId) {
+        commands.push(`aws configure set external_id ${role.externalId} ${profile}`);
+      }
+    });
+    commands.push(
+      `export AWS_PROFILE=assume-role-${roles.length - 1}`,
+      'export AWS_SDK_LOAD_CONFIG=1',
+      'aws sts get-caller-identity',
+    );
+    if (exportCredentials) {
+      commands.push('eval "$(aws configure export-credentials --format env)"');
+    }
+
     this.partialBuildSpec = BuildSpec.fromObject({
       phases: {
         install: {
-          commands: [
-            `ASSUME_ROLE_ARN=${roleArn}`,
-            'TEMP_ROLE=$(aws sts assume-role --role-arn $ASSUME_ROLE_ARN --role-session-name test)',
-            'export TEMP_ROLE',
-            'export AWS_ACCESS_KEY_ID=$(echo "${TEMP_ROLE}" | jq -r \'.Credentials.AccessKeyId\')', // TODO: JQ dependency
-            'export AWS_SECRET_ACCESS_KEY=$(echo "${TEMP_ROLE}" | jq -r \'.Credentials.SecretAccessKey\')',
-            'export AWS_SESSION_TOKEN=$(echo "${TEMP_ROLE}" | jq -r \'.Credentials.SessionToken\')',
-          ],
+          commands,
         },
       },
     });
+    this.rolePolicy = [
+      new PolicyStatement({
+        effect: Effect.ALLOW,
+        actions: ['sts:AssumeRole'],
+        resources: [roleArn],
+      }),
+    ];
   }
 }
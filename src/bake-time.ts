@@ -0,0 +1,316 @@
+import { Aws, Duration } from 'aws-cdk-lib';
+import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { IBucket } from 'aws-cdk-lib/aws-s3';
+import { CodeBuildStep, StackDeployment } from 'aws-cdk-lib/pipelines';
+import { StackEnvironment, stackEnvironment } from './util';
+
+/**
+ * A tag the alarms of a stage are discovered by.
+ *
+ * @export
+ * @interface AlarmTagFilter
+ * @typedef {AlarmTagFilter}
+ */
+export interface AlarmTagFilter {
+  /**
+   * The key of the tag.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly key: string;
+  /**
+   * The value of the tag.
+   *
+   * @readonly
+   * @type {?string}
+   * @default - any value
+   */
+  readonly value?: string;
+}
+
+/**
+ * Configuration for the bake time of a stage. After the stage is deployed the pipeline waits for
+ * the bake time, failing if any of the alarms fires, and rolls the stacks of the stage back to the
+ * templates deployed before.
+ *
+ * The alarms are looked up in each account and region the stacks of the stage are deployed to,
+ * through the CDK bootstrap lookup role, and the stacks are rolled back through the CDK bootstrap deploy role.
+ *
+ * @export
+ * @interface BakeTimeConfig
+ * @typedef {BakeTimeConfig}
+ */
+export interface BakeTimeConfig {
+  /**
+   * How long to watch the alarms for, at most 7 hours.
+   *
+   * @readonly
+   * @type {Duration}
+   */
+  readonly duration: Duration;
+  /**
+   * The names of the alarms to watch.
+   *
+   * @readonly
+   * @type {?string[]}
+   */
+  readonly alarmNames?: string[];
+  /**
+   * Also watch the alarms with this tag.
+   *
+   * @readonly
+   * @type {?AlarmTagFilter}
+   */
+  readonly alarmTag?: AlarmTagFilter;
+  /**
+   * Roll the stacks of the stage back when an alarm fires.
+   *
+   * @readonly
+   * @type {?boolean}
+   * @default true
+   */
+  readonly rollback?: boolean;
+}
+
+/**
+ * Properties shared by the bake time steps.
+ *
+ * @export
+ * @interface BakeTimeStepsProps
+ * @typedef {BakeTimeStepsProps}
+ */
+export interface BakeTimeStepsProps {
+  /**
+   * The stacks of the stage.
+   *
+   * @readonly
+   * @type {StackDeployment[]}
+   */
+  readonly stacks: StackDeployment[];
+  /**
+   * The artifact bucket of the pipeline, the templates deployed before the stage are kept in it.
+   *
+   * @readonly
+   * @type {IBucket}
+   */
+  readonly artifactBucket: IBucket;
+  /**
+   * The name of the pipeline.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly pipelineName: string;
+  /**
+   * The name of the stage.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly stageName: string;
+}
+
+/**
+ * Run an AWS CLI command with the credentials of a role, in a subshell.
+ *
+ * @param {(string | undefined)} roleArn - The role to assume, the command runs with the CodeBuild credentials when not specified.
+ * @param {string} command
+ * @returns {string}
+ */
+function withRole(roleArn: string | undefined, command: string): string {
+  if (!roleArn) return `(${command})`;
+  return `(set -- $(aws sts assume-role --role-arn ${roleArn} --role-session-name bake-time --query "Credentials.[AccessKeyId,SecretAccessKey,SessionToken]" --output text); export AWS_ACCESS_KEY_ID=$1 AWS_SECRET_ACCESS_KEY=$2 AWS_SESSION_TOKEN=$3; ${command})`;
+}
+
+/**
+ * The distinct environments of the stacks of a stage, the current region of the pipeline when the
+ * stage has no stacks.
+ *
+ * @param {StackEnvironment[]} stacks
+ * @returns {StackEnvironment[]}
+ */
+function distinctEnvironments(stacks: StackEnvironment[]): StackEnvironment[] {
+  if (!stacks.length) return [{ stackName: '', region: Aws.REGION }];
+  const environments = new Map<string, StackEnvironment>();
+  for (const stack of stacks) {
+    const key = `${stack.lookupRoleArn ?? ''}|${stack.region}`;
+    if (!environments.has(key)) environments.set(key, stack);
+  }
+  return [...environments.values()];
+}
+
+/**
+ * The key prefix, in the artifact bucket, of the templates deployed before the stage.
+ *
+ * @param {BakeTimeStepsProps} props
+ * @returns {string}
+ */
+function templatesPrefix(props: BakeTimeStepsProps): string {
+  // CodePipeline stores the artifacts under the pipeline name, truncated to 20 chars
+  return `${props.pipelineName.substring(0, 20)}/BakeTime/${props.stageName}`;
+}
+
+/**
+ * Policy statements that allow the bake time steps to assume the CDK bootstrap roles and keep the
+ * templates in the artifact bucket. The bucket is expected to use S3 managed encryption.
+ *
+ * @param {BakeTimeStepsProps} props
+ * @param {string[]} actions - The S3 actions on the templates.
+ * @returns {PolicyStatement[]}
+ */
+function bakeTimeStatements(props: BakeTimeStepsProps, actions: string[]): PolicyStatement[] {
+  return [
+    new PolicyStatement({
+      actions: ['sts:AssumeRole'],
+      resources: ['*'],
+      conditions: {
+        StringEquals: {
+          'iam:ResourceTag/aws-cdk:bootstrap-role': ['lookup', 'deploy'],
+        },
+      },
+    }),
+    new PolicyStatement({
+      actions,
+      resources: [props.artifactBucket.arnForObjects(`${templatesPrefix(props)}/*`)],
+    }),
+  ];
+}
+
+/**
+ * CodeBuild step that keeps the templates of the stacks of a stage, as deployed before the stage,
+ * for the BakeTimeStep to roll back to. Run it right before the stage is deployed.
+ *
+ * @export
+ * @class CaptureStackTemplatesStep
+ * @typedef {CaptureStackTemplatesStep}
+ * @extends {CodeBuildStep}
+ */
+export class CaptureStackTemplatesStep extends CodeBuildStep {
+  /**
+   * Creates an instance of CaptureStackTemplatesStep.
+   *
+   * @constructor
+   * @param {BakeTimeStepsProps} props
+   */
+  constructor(props: BakeTimeStepsProps) {
+    const location = `s3://${props.artifactBucket.bucketName}/${templatesPrefix(props)}`;
+
+    super('CaptureTemplates', {
+      commands: props.stacks.map(stackEnvironment).map(stack => {
+        const getTemplate = withRole(
+          stack.deployRoleArn,
+          `aws cloudformation get-template --stack-name ${stack.stackName} --region ${stack.region} --template-stage Original --query TemplateBody --output json`,
+        );
+        const key = `${location}/${stack.stackName}.json`;
+        return `if ${getTemplate} > template.json; then aws s3 cp template.json ${key}; else aws s3 rm ${key}; echo "${stack.stackName} is not deployed yet"; fi`;
+      }),
+      rolePolicyStatements: bakeTimeStatements(props, ['s3:PutObject', 's3:DeleteObject']),
+    });
+  }
+}
+
+/**
+ * Properties for the BakeTimeStep.
+ *
+ * @export
+ * @interface BakeTimeStepProps
+ * @typedef {BakeTimeStepProps}
+ * @extends {BakeTimeStepsProps}
+ * @extends {BakeTimeConfig}
+ */
+export interface BakeTimeStepProps extends BakeTimeStepsProps, BakeTimeConfig {}
+
+/**
+ * CodeBuild step that watches the alarms of a stage for the bake time once the stage is deployed.
+ * When an alarm fires the stacks are rolled back to the templates kept by the
+ * CaptureStackTemplatesStep, in reverse order, and the step fails.
+ *
+ * @export
+ * @class BakeTimeStep
+ * @typedef {BakeTimeStep}
+ * @extends {CodeBuildStep}
+ */
+export class BakeTimeStep extends CodeBuildStep {
+  /**
+   * Creates an instance of BakeTimeStep.
+   *
+   * @constructor
+   * @param {BakeTimeStepProps} props
+   */
+  constructor(props: BakeTimeStepProps) {
+    const { duration, alarmNames = [], alarmTag, rollback = true } = props;
+    if (duration.toSeconds() > Duration.hours(7).toSeconds()) {
+      throw new Error(
+        `Improper configuration: the bake time of ${props.stageName} cannot be longer than 7 hours`,
+      );
+    }
+
+    const stacks = props.stacks.map(stackEnvironment);
+    const alarmsEnvironments = distinctEnvironments(stacks);
+
+    const commands: string[] = [];
+    const describeAlarms = alarmsEnvironments.map(({ region, lookupRoleArn }, index) => {
+      const names = `ALARM_NAMES_${index}`;
+      commands.push(`${names}="${alarmNames.join(' ')}"`);
+      if (alarmTag) {
+        const tagFilter = `Key=${alarmTag.key}${alarmTag.value ? `,Values=${alarmTag.value}` : ''}`;
+        const getResources = withRole(
+          lookupRoleArn,
+          `aws resourcegroupstaggingapi get-resources --region ${region} --resource-type-filters cloudwatch:alarm --tag-filters ${tagFilter} --query "ResourceTagMappingList[].ResourceARN" --output text`,
+        );
+        commands.push(
+          `for ALARM_ARN in $${getResources}; do ${names}="$${names} \${ALARM_ARN##*:alarm:}"; done`,
+        );
+      }
+      commands.push(`echo "Watching the alarms $${names} in ${region}"`);
+      const describe = withRole(
+        lookupRoleArn,
+        `aws cloudwatch describe-alarms --region ${region} --alarm-names $${names} --state-value ALARM --query "MetricAlarms[].AlarmName" --output text`,
+      );
+      return `if [ -n "$(echo $${names})" ]; then FIRING="$FIRING $${describe}"; fi`;
+    });
+    commands.push(
+      'echo "Baking for $BAKE_SECONDS seconds"',
+      'BAKE_END=$(( $(date +%s) + BAKE_SECONDS )); FIRING=""',
+      `while [ $(date +%s) -lt $BAKE_END ]; do ${describeAlarms.join(
+        '; ',
+      )}; [ -n "$(echo $FIRING)" ] && break; sleep 60; done`,
+    );
+
+    const rollbackCommands = [
+      'echo "Alarms fired during the bake time: $FIRING"',
+      ...(rollback
+        ? [...stacks].reverse().map(stack => {
+            const key = `${templatesPrefix(props)}/${stack.stackName}.json`;
+            const describeStack = withRole(
+              stack.deployRoleArn,
+              `aws cloudformation describe-stacks --stack-name ${stack.stackName} --region ${stack.region} --query "Stacks[0].Parameters[].ParameterKey" --output text`,
+            );
+            const updateStack = withRole(
+              stack.deployRoleArn,
+              [
+                `aws cloudformation update-stack --stack-name ${stack.stackName} --region ${stack.region}`,
+                `--template-url ${props.artifactBucket.urlForObject(key)}`,
+                '--capabilities CAPABILITY_IAM CAPABILITY_NAMED_IAM CAPABILITY_AUTO_EXPAND',
+                ...(stack.executionRoleArn ? [`--role-arn ${stack.executionRoleArn}`] : []),
+                '${PARAMETERS:+--parameters $PARAMETERS}',
+                `&& aws cloudformation wait stack-update-complete --stack-name ${stack.stackName} --region ${stack.region}`,
+              ].join(' '),
+            );
+            return `if aws s3api head-object --bucket ${props.artifactBucket.bucketName} --key ${key} > /dev/null 2>&1; then echo "Rolling back ${stack.stackName}"; PARAMETERS=$(for KEY in $${describeStack}; do printf "ParameterKey=%s,UsePreviousValue=true " $KEY; done); ${updateStack} || echo "${stack.stackName} could not be rolled back"; fi`;
+          })
+        : []),
+      'exit 1',
+    ];
+    commands.push(`if [ -n "$(echo $FIRING)" ]; then ${rollbackCommands.join('; ')}; fi`);
+
+    super('BakeTime', {
+      commands,
+      env: { BAKE_SECONDS: `${duration.toSeconds()}` },
+      // leave enough time to roll back once the bake time is over
+      timeout: duration.plus(Duration.hours(1)),
+      rolePolicyStatements: bakeTimeStatements(props, ['s3:GetObject']),
+    });
+  }
+}
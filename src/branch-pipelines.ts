@@ -1,8 +1,29 @@
-import { App, StackProps, Stage } from 'aws-cdk-lib';
+import { App, Aspects, RemovalPolicy, Stack, StackProps, Stage } from 'aws-cdk-lib';
+import { BlockPublicAccess, Bucket, BucketEncryption } from 'aws-cdk-lib/aws-s3';
 import { RepositoryConfig } from './code-source';
-import { StageConfig, PipelineConfig, ComponentPipelineStack } from './component-pipeline-stack';
+import {
+  StageConfig,
+  PipelineConfig,
+  ComponentPipelineStack,
+  WaveConfig,
+} from './component-pipeline-stack';
+import { BranchPipelinesConfigFileOverrides, loadBranchPipelinesConfig } from './config-file';
+import { IConfigValidator, mergeConfigLayers } from './configured-stage';
+import {
+  EphemeralBranchControllerStack,
+  EPHEMERAL_BRANCH_CONTEXT_KEY,
+} from './ephemeral-branch-controller-stack';
+import { BranchPipelinesDashboard } from './pipeline-metrics';
+import {
+  PULL_REQUEST_CONTEXT_KEY,
+  PullRequestValidationConfig,
+  PullRequestValidationStack,
+} from './pull-request-validation-stack';
+import { StageTtlConfig } from './stage-ttl';
+import { branchPatternMatches, branchSlug } from './util';
+import { WellArchitectedAspects } from './well-architected-aspects';
 
-export { StageConfig, PipelineConfig } from './component-pipeline-stack';
+export { StageConfig, PipelineConfig, WaveConfig } from './component-pipeline-stack';
 
 /**
  * Configuration for the component to be deployed.
@@ -26,6 +47,40 @@ export interface ComponentConfig {
    * @type {typeof Stage}
    */
   readonly componentType: typeof Stage;
+  /**
+   * Base directory of the component within the repository, overrides the repository `baseDir`.
+   *
+   * @readonly
+   * @type {?string}
+   * @default - the repository `baseDir`
+   */
+  readonly baseDir?: string;
+  /**
+   * Glob patterns of the files, relative to the root of the repository, whose changes trigger the
+   * pipelines of this component, ex. `['packages/api/**', 'packages/shared/**']`. Only supported
+   * for GitHub, Bitbucket and GitLab sources.
+   *
+   * @readonly
+   * @type {?string[]}
+   * @default - every commit to the branch triggers the pipeline
+   */
+  readonly sourcePathFilters?: string[];
+  /**
+   * The config shared by every stage of the component. The `config` of the deployment branch and
+   * the `config` of the stage are deep merged over it, in that order.
+   *
+   * @readonly
+   * @type {?Record<string, any>}
+   */
+  readonly baseConfig?: Record<string, any>;
+  /**
+   * Tags added to the pipelines of the component and every stack of their stages. The branch,
+   * component and stage are tagged regardless, see `BranchPipelinesTag`.
+   *
+   * @readonly
+   * @type {?Record<string, string>}
+   */
+  readonly tags?: Record<string, string>;
 }
 
 /**
@@ -52,13 +107,92 @@ export interface IDeploymentBranch<TConfig> {
    */
   readonly staticPipelineIdentifier?: string;
   /**
-   * Configuration for the stages represented by this deployment branch.
+   * Configuration for the stages represented by this deployment branch. These stages are deployed
+   * sequentially, before any of the `waves`.
    *
    * @readonly
-   * @type {StageConfig<TConfig>[]}
+   * @type {?StageConfig<TConfig>[]}
    */
-  readonly stages: StageConfig<TConfig>[];
+  readonly stages?: StageConfig<TConfig>[];
+  /**
+   * Configuration for waves of stages represented by this deployment branch. The waves are deployed
+   * sequentially after the `stages`, the stages within each wave are deployed in parallel.
+   *
+   * @readonly
+   * @type {?WaveConfig<TConfig>[]}
+   */
+  readonly waves?: WaveConfig<TConfig>[];
+  /**
+   * Build once: deploy the cloud assembly, and its assets, promoted from the pipeline of another
+   * deployment branch instead of synthesizing this branch. The upstream pipeline promotes the
+   * cloud assembly of a commit once all of its stages have been deployed, a `promotion.json`
+   * record of the promoted commit is kept in the promotion bucket. Tests are not run again and
+   * smoke tests run from the promoted cloud assembly rather than the repository.
+   *
+   * @readonly
+   * @type {?string}
+   */
+  readonly promoteFrom?: string;
+  /**
+   * Destroy the stacks of each stage once none of them has been deployed for a while, ex. for
+   * short-lived branches. The `ttl` of a stage takes precedence.
+   *
+   * @readonly
+   * @type {?StageTtlConfig}
+   */
+  readonly ttl?: StageTtlConfig;
+  /**
+   * Overrides of the `baseConfig` of the component for every stage of this branch, the `config`
+   * of a stage is deep merged over it.
+   *
+   * @readonly
+   * @type {?Record<string, any>}
+   */
+  readonly config?: Record<string, any>;
+}
+
+/**
+ * Configuration for ephemeral branch pipelines. A controller stack listens for branches matching
+ * `branchPattern` being created or deleted and deploys or tears down a pipeline for each of them
+ * based on the `template` deployment branch.
+ *
+ * @export
+ * @interface EphemeralBranchesConfig
+ * @typedef {EphemeralBranchesConfig}
+ * @template TConfig
+ * @template TBranch extends IDeploymentBranch<TConfig> = IDeploymentBranch<TConfig>
+ */
+export interface EphemeralBranchesConfig<
+  TConfig,
+  TBranch extends IDeploymentBranch<TConfig> = IDeploymentBranch<TConfig>,
+> {
+  /**
+   * Pattern of the branches that should get an ephemeral pipeline, ex. `feature/*`. The only
+   * wildcard is `*`, it matches any characters, including `/`, as in EventBridge wildcard filters.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly branchPattern: string;
+  /**
+   * The deployment branch used as a template for each ephemeral branch. The `branchName` and
+   * `staticPipelineIdentifier` are replaced with the ephemeral branch, and the stage names are
+   * prefixed with it so that stacks from different branches do not collide.
+   *
+   * @readonly
+   * @type {TBranch}
+   */
+  readonly template: TBranch;
+  /**
+   * The branch whose code is used by the controller to deploy and destroy the ephemeral pipelines.
+   *
+   * @readonly
+   * @type {?string}
+   * @default 'main'
+   */
+  readonly controllerBranch?: string;
 }
+
 /**
  * Configuration for the BranchPipelines construct.
  *
@@ -82,12 +216,103 @@ export interface BranchPipelinesProps<
   readonly deploymentBranches: TBranch[];
   readonly pipelineConfig: PipelineConfig;
   /**
-   * Configuration for the source code repository. Currently supports GitHub and CodeArtifacts.
+   * Configuration for the source code repository. Currently supports CodeCommit, GitHub, Bitbucket,
+   * GitLab, S3 and ECR sources.
    * @readonly
    * @type {RepositoryConfig}
    */
   readonly repository: RepositoryConfig;
-  readonly component: ComponentConfig;
+  /**
+   * The component to deploy.
+   *
+   * @deprecated use `components`
+   * @readonly
+   * @type {?ComponentConfig}
+   */
+  readonly component?: ComponentConfig;
+  /**
+   * The components to deploy, each component gets its own pipeline for every deployment branch.
+   *
+   * @readonly
+   * @type {?ComponentConfig[]}
+   */
+  readonly components?: ComponentConfig[];
+  /**
+   * Create pipelines on demand for short-lived branches matching a pattern.
+   *
+   * @readonly
+   * @type {?EphemeralBranchesConfig<TConfig, TBranch>}
+   */
+  readonly ephemeralBranches?: EphemeralBranchesConfig<TConfig, TBranch>;
+  /**
+   * Validate the config of every stage at synth time, ex. against a JSON Schema. The errors of all
+   * the stages are reported at once, with the branch and stage they were found in.
+   *
+   * @readonly
+   * @type {?IConfigValidator}
+   */
+  readonly validateConfig?: IConfigValidator;
+  /**
+   * Validate pull requests before they are merged: synth, run the well-architected checks and
+   * diff against the stages of the targeted deployment branch. Only supported for CodeCommit and
+   * GitHub repositories.
+   *
+   * @readonly
+   * @type {?PullRequestValidationConfig}
+   */
+  readonly pullRequestValidation?: PullRequestValidationConfig;
+}
+
+/**
+ * Validate the layered config of the stages of deployment branches, throwing the errors of all
+ * stages.
+ *
+ * @template TConfig
+ * @param {ComponentConfig[]} components
+ * @param {IDeploymentBranch<TConfig>[]} branches
+ * @param {IConfigValidator} validator
+ */
+function validateStageConfigs<TConfig>(
+  components: ComponentConfig[],
+  branches: IDeploymentBranch<TConfig>[],
+  validator: IConfigValidator,
+): void {
+  const errors = components.flatMap(component =>
+    branches.flatMap(branch =>
+      [...(branch.stages ?? []), ...(branch.waves ?? []).flatMap(wave => wave.stages)].flatMap(
+        stage =>
+          validator
+            .validate(mergeConfigLayers<TConfig>(component.baseConfig, branch.config, stage.config))
+            .map(
+              error =>
+                `${
+                  components.length > 1 ? `component '${component.componentName}', ` : ''
+                }branch '${branch.branchName}', stage '${stage.name}': ${error}`,
+            ),
+      ),
+    ),
+  );
+  if (errors.length > 0) {
+    throw new Error(
+      `Improper configuration: invalid stage config\n${errors
+        .map(error => `  - ${error}`)
+        .join('\n')}`,
+    );
+  }
+}
+
+/**
+ * The repository configuration for a component, using the component's `baseDir` when set.
+ *
+ * @param {RepositoryConfig} repository
+ * @param {ComponentConfig} component
+ * @returns {RepositoryConfig}
+ */
+function componentRepository(
+  repository: RepositoryConfig,
+  component: ComponentConfig,
+): RepositoryConfig {
+  return component.baseDir ? { ...repository, baseDir: component.baseDir } : repository;
 }
 
 /**
@@ -103,11 +328,67 @@ export class BranchPipelines<
   TConfig,
   TBranch extends IDeploymentBranch<TConfig> = IDeploymentBranch<TConfig>,
 > {
+  /**
+   * Create branch pipelines from a YAML or JSON config file describing the `deploymentBranches`,
+   * `pipelineConfig` and `repository`, see `BranchPipelinesConfigFile`. Options that cannot be
+   * expressed in the file, ex. durations or steps, can be passed in `overrides`. The
+   * `pipelineConfig` of the overrides is deep merged over the file.
+   *
+   * @static
+   * @template TConfig
+   * @param {App} app
+   * @param {string} path - Path of the config file.
+   * @param {(ComponentConfig | ComponentConfig[])} component - The component(s) to deploy.
+   * @param {?BranchPipelinesConfigFileOverrides<TConfig>} [overrides]
+   * @returns {BranchPipelines<TConfig>}
+   */
+  static fromConfigFile<TConfig>(
+    app: App,
+    path: string,
+    component: ComponentConfig | ComponentConfig[],
+    overrides?: BranchPipelinesConfigFileOverrides<TConfig>,
+  ): BranchPipelines<TConfig> {
+    const file = loadBranchPipelinesConfig<TConfig>(path);
+    return new BranchPipelines<TConfig>(app, {
+      ...file,
+      ...overrides,
+      components: Array.isArray(component) ? component : [component],
+      pipelineConfig: mergeConfigLayers<PipelineConfig>(
+        file.pipelineConfig,
+        overrides?.pipelineConfig,
+      ),
+    });
+  }
+
   /**
    * Instance(s) of ComponentPipelineStacks created
    */
   readonly componentPipelineStacks: ComponentPipelineStack<TConfig, TBranch>[] = [];
 
+  /**
+   * The controller stacks for ephemeral branch pipelines, one per component, if
+   * `ephemeralBranches` is configured.
+   */
+  readonly ephemeralBranchControllers: EphemeralBranchControllerStack[] = [];
+
+  /**
+   * The buckets cloud assemblies are promoted through, one per component, if any deployment
+   * branch is promoted from another.
+   */
+  readonly promotionBuckets: Bucket[] = [];
+
+  /**
+   * The stacks that validate pull requests, one per component, if `pullRequestValidation` is
+   * configured.
+   */
+  readonly pullRequestValidationStacks: PullRequestValidationStack[] = [];
+
+  /**
+   * The dashboard of every pipeline of the components, if `dashboard` is enabled in the pipeline
+   * config.
+   */
+  readonly dashboard?: BranchPipelinesDashboard;
+
   /**
    * Creates an instance of DeploymentPipelines.
    *
@@ -116,19 +397,144 @@ export class BranchPipelines<
    * @param {BranchPipelinesProps<TConfig, TBranch>} props
    */
   constructor(app: App, props: BranchPipelinesProps<TConfig, TBranch>) {
-    props.deploymentBranches.forEach((branch: TBranch) => {
-      const pipelineStackId = `${props.component.componentName}-${
-        branch.staticPipelineIdentifier || branch.branchName
-      }-pipeline`;
-      this.componentPipelineStacks.push(
-        new ComponentPipelineStack(app, pipelineStackId, {
-          branch,
-          pipelineConfig: props.pipelineConfig,
-          repository: props.repository,
-          component: props.component,
-          env: props.env,
-        }),
+    const components = [...(props.components ?? [])];
+    if (props.component) components.unshift(props.component);
+    if (components.length === 0) {
+      throw new Error('Improper configuration: at least one component must be specified');
+    }
+
+    const deploymentBranches = [...props.deploymentBranches];
+
+    if (props.validateConfig) {
+      validateStageConfigs(
+        components,
+        props.ephemeralBranches
+          ? [...deploymentBranches, props.ephemeralBranches.template]
+          : deploymentBranches,
+        props.validateConfig,
+      );
+    }
+
+    let ephemeralBranchName: string | undefined;
+    if (props.ephemeralBranches) {
+      const { branchPattern, template, controllerBranch = 'main' } = props.ephemeralBranches;
+
+      components.forEach(component => {
+        this.ephemeralBranchControllers.push(
+          new EphemeralBranchControllerStack(app, `${component.componentName}-ephemeral-branches`, {
+            componentName: component.componentName,
+            branchPattern,
+            controllerBranch,
+            repository: componentRepository(props.repository, component),
+            env: props.env,
+          }),
+        );
+      });
+
+      // the controller passes the branch it is deploying or destroying through context
+      const ephemeralBranch: string | undefined = app.node.tryGetContext(
+        EPHEMERAL_BRANCH_CONTEXT_KEY,
       );
+      if (ephemeralBranch && branchPatternMatches(ephemeralBranch, branchPattern)) {
+        ephemeralBranchName = ephemeralBranch;
+        const slug = branchSlug(ephemeralBranch);
+        const prefixStages = (stages: StageConfig<TConfig>[] = []) =>
+          stages.map(stage => ({ ...stage, name: `${slug}-${stage.name}` }));
+        deploymentBranches.push({
+          ...template,
+          branchName: ephemeralBranch,
+          staticPipelineIdentifier: slug,
+          stages: prefixStages(template.stages),
+          waves: template.waves?.map(wave => ({
+            ...wave,
+            name: `${slug}-${wave.name}`,
+            stages: prefixStages(wave.stages),
+          })),
+        });
+      }
+    }
+
+    const upstreamBranches = deploymentBranches
+      .map(branch => branch.promoteFrom)
+      .filter((branchName): branchName is string => !!branchName);
+    upstreamBranches.forEach(branchName => {
+      if (!deploymentBranches.find(branch => branch.branchName === branchName)) {
+        throw new Error(
+          `Improper configuration: cannot promote from '${branchName}', it is not a deployment branch`,
+        );
+      }
     });
+
+    components.forEach(component => {
+      // the bucket cloud assemblies are promoted through between the branch pipelines
+      let promotionBucket: Bucket | undefined;
+      if (upstreamBranches.length > 0) {
+        const promotionStack = new Stack(app, `${component.componentName}-promotion`, {
+          env: props.env,
+        });
+        promotionBucket = new Bucket(promotionStack, 'PromotionBucket', {
+          versioned: true,
+          encryption: BucketEncryption.S3_MANAGED,
+          blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
+          enforceSSL: true,
+          removalPolicy: RemovalPolicy.RETAIN,
+        });
+        this.promotionBuckets.push(promotionBucket);
+      }
+
+      deploymentBranches.forEach((branch: TBranch) => {
+        const pipelineStackId = `${component.componentName}-${
+          branch.staticPipelineIdentifier || branch.branchName
+        }-pipeline`;
+        this.componentPipelineStacks.push(
+          new ComponentPipelineStack(app, pipelineStackId, {
+            branch,
+            pipelineConfig: props.pipelineConfig,
+            repository: props.repository,
+            component,
+            promotionBucket,
+            publishPromotions: upstreamBranches.includes(branch.branchName),
+            // the pipeline synthesizes its own ephemeral branch, ex. when it self-mutates
+            synthArgs:
+              branch.branchName === ephemeralBranchName
+                ? [`-c ${EPHEMERAL_BRANCH_CONTEXT_KEY}=${ephemeralBranchName}`]
+                : undefined,
+            env: props.env,
+          }),
+        );
+      });
+    });
+
+    if (props.pullRequestValidation) {
+      const { wellArchitectedChecks = true } = props.pullRequestValidation;
+      components.forEach(component => {
+        this.pullRequestValidationStacks.push(
+          new PullRequestValidationStack(app, `${component.componentName}-pull-requests`, {
+            ...props.pullRequestValidation,
+            componentName: component.componentName,
+            repository: componentRepository(props.repository, component),
+            deploymentBranches: props.deploymentBranches,
+            codeArtifact: props.pipelineConfig.codeArtifact,
+            frozenLockfile: props.pipelineConfig.frozenLockfile,
+            env: props.env,
+          }),
+        );
+      });
+      // the validation synthesizes the app with the well-architected checks
+      if (wellArchitectedChecks && app.node.tryGetContext(PULL_REQUEST_CONTEXT_KEY)) {
+        Aspects.of(app).add(new WellArchitectedAspects());
+      }
+    }
+
+    if (props.pipelineConfig.dashboard) {
+      const componentNames = components.map(component => component.componentName);
+      // named after the components, an app can hold several BranchPipelines
+      const dashboardStack = new Stack(app, `${componentNames.join('-')}-pipelines-dashboard`, {
+        env: props.env,
+      });
+      this.dashboard = new BranchPipelinesDashboard(dashboardStack, 'Dashboard', {
+        componentNames,
+      });
+    }
   }
 }
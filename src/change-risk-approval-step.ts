@@ -0,0 +1,339 @@
+import { Arn, Stack, Stage } from 'aws-cdk-lib';
+import { IStage } from 'aws-cdk-lib/aws-codepipeline';
+import { ManualApprovalAction } from 'aws-cdk-lib/aws-codepipeline-actions';
+import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import {
+  CodeBuildStep,
+  CodePipelineActionFactoryResult,
+  ICodePipelineActionFactory,
+  IFileSetProducer,
+  ProduceActionOptions,
+  Step,
+} from 'aws-cdk-lib/pipelines';
+import { Construct } from 'constructs';
+
+/**
+ * Resource types whose deletion loses data, deleting any of these is classified as risky.
+ */
+export const DEFAULT_STATEFUL_RESOURCE_TYPES = [
+  'AWS::RDS::DBInstance',
+  'AWS::RDS::DBCluster',
+  'AWS::S3::Bucket',
+  'AWS::DynamoDB::Table',
+  'AWS::DynamoDB::GlobalTable',
+  'AWS::EFS::FileSystem',
+  'AWS::ElastiCache::ReplicationGroup',
+  'AWS::Kinesis::Stream',
+  'AWS::SQS::Queue',
+  'AWS::Cognito::UserPool',
+  'AWS::KMS::Key',
+];
+
+/**
+ * The version of the CDK CLI the changes are diffed with.
+ */
+export const DEFAULT_CDK_CLI_VERSION = '2.147.3';
+
+/**
+ * How long the auto approval waits for the manual approval to be requested, in seconds.
+ */
+const APPROVAL_REQUEST_TIMEOUT = 600;
+
+/**
+ * Configuration for the risk-aware approval of a stage. The changes of the stage are computed with
+ * `cdk diff` and classified, the approval is only left pending when a risky change is detected.
+ *
+ * @export
+ * @interface RiskAwareApprovalConfig
+ * @typedef {RiskAwareApprovalConfig}
+ */
+export interface RiskAwareApprovalConfig {
+  /**
+   * Pause for approval when the changes broaden IAM permissions or security groups.
+   *
+   * @readonly
+   * @type {?boolean}
+   * @default true
+   */
+  readonly detectSecurityBroadening?: boolean;
+  /**
+   * Pause for approval when the changes replace existing resources.
+   *
+   * @readonly
+   * @type {?boolean}
+   * @default true
+   */
+  readonly detectReplacements?: boolean;
+  /**
+   * Pause for approval when a resource of one of these types is deleted.
+   *
+   * @readonly
+   * @type {?string[]}
+   * @default DEFAULT_STATEFUL_RESOURCE_TYPES
+   */
+  readonly statefulResourceTypes?: string[];
+  /**
+   * ARN of an SNS topic the diff summary is published to when the approval is left pending.
+   *
+   * @readonly
+   * @type {?string}
+   */
+  readonly notificationTopicArn?: string;
+  /**
+   * The version of the CDK CLI the changes are diffed with, at least the version the cloud
+   * assembly was synthesized for.
+   *
+   * @readonly
+   * @type {?string}
+   * @default DEFAULT_CDK_CLI_VERSION
+   */
+  readonly cdkCliVersion?: string;
+}
+
+/**
+ * Properties for the ChangeRiskApprovalStep.
+ *
+ * @export
+ * @interface ChangeRiskApprovalStepProps
+ * @typedef {ChangeRiskApprovalStepProps}
+ * @extends {RiskAwareApprovalConfig}
+ */
+export interface ChangeRiskApprovalStepProps extends RiskAwareApprovalConfig {
+  /**
+   * The cloud assembly produced by the Synth step.
+   *
+   * @readonly
+   * @type {IFileSetProducer}
+   */
+  readonly input: IFileSetProducer;
+  /**
+   * The stage whose changes are checked.
+   *
+   * @readonly
+   * @type {Stage}
+   */
+  readonly stage: Stage;
+  /**
+   * The name of the pipeline.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly pipelineName: string;
+  /**
+   * The name of the pipeline stage the approval action runs in.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly pipelineStageName: string;
+  /**
+   * The name of the manual approval action to approve when no risky change is detected, as
+   * named in the pipeline, ex. prefixed with the stage name in a wave.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly approvalActionName: string;
+}
+
+/**
+ * The manual approval of a ChangeRiskApprovalStep, its comment and link are resolved from the
+ * variables of the risk check when the approval is requested.
+ *
+ * @class RiskSummaryApprovalStep
+ * @typedef {RiskSummaryApprovalStep}
+ * @extends {Step}
+ * @implements {ICodePipelineActionFactory}
+ */
+class RiskSummaryApprovalStep extends Step implements ICodePipelineActionFactory {
+  /**
+   * Creates an instance of RiskSummaryApprovalStep.
+   *
+   * @constructor
+   * @param {string} id
+   * @param {string} summary - The comment of the approval.
+   * @param {string} link - The link of the approval, to the diff.
+   */
+  constructor(id: string, private readonly summary: string, private readonly link: string) {
+    super(id);
+    this.discoverReferencedOutputs({ summary, link });
+  }
+
+  produceAction(stage: IStage, options: ProduceActionOptions): CodePipelineActionFactoryResult {
+    stage.addAction(
+      new ManualApprovalAction({
+        actionName: options.actionName,
+        runOrder: options.runOrder,
+        additionalInformation: this.summary,
+        externalEntityLink: this.link,
+      }),
+    );
+    return { runOrdersConsumed: 1 };
+  }
+}
+
+/**
+ * CodeBuild step that diffs a stage against what is deployed and classifies the changes. It is
+ * followed by a manual approval, named `approvalActionName`, that shows the risk summary and
+ * links to the diff, and by a step that approves it on behalf of a reviewer when none of the
+ * changes are risky. Risky changes leave the approval pending and are, optionally, published to
+ * an SNS topic.
+ *
+ * Add the `steps`, the check and the approval steps, before the stage is deployed.
+ *
+ * @export
+ * @class ChangeRiskApprovalStep
+ * @typedef {ChangeRiskApprovalStep}
+ * @extends {CodeBuildStep}
+ */
+export class ChangeRiskApprovalStep extends CodeBuildStep {
+  /**
+   * The manual approval, with the risk summary as comment and a link to the diff.
+   *
+   * @readonly
+   * @type {Step}
+   */
+  readonly approval: Step;
+  /**
+   * The step that approves the manual approval when no risky change is detected.
+   *
+   * @readonly
+   * @type {CodeBuildStep}
+   */
+  readonly autoApproval: CodeBuildStep;
+
+  /**
+   * Creates an instance of ChangeRiskApprovalStep.
+   *
+   * @constructor
+   * @param {Construct} scope - The pipeline stack.
+   * @param {ChangeRiskApprovalStepProps} props
+   */
+  constructor(scope: Construct, props: ChangeRiskApprovalStepProps) {
+    const {
+      stage,
+      pipelineName,
+      pipelineStageName,
+      approvalActionName,
+      detectSecurityBroadening = true,
+      detectReplacements = true,
+      statefulResourceTypes = DEFAULT_STATEFUL_RESOURCE_TYPES,
+      notificationTopicArn,
+      cdkCliVersion = DEFAULT_CDK_CLI_VERSION,
+    } = props;
+
+    const stacks = `"${stage.node.path}/*"`;
+    const commands = [
+      'RISKS=""',
+      `cdk diff -a . --no-color ${stacks} > diff.txt 2>&1 || true`,
+      'cat diff.txt',
+    ];
+    if (detectSecurityBroadening) {
+      commands.push(
+        `cdk diff -a . --no-color --security-only --fail ${stacks} > /dev/null 2>&1 || RISKS="$RISKS security-broadening"`,
+      );
+    }
+    if (detectReplacements) {
+      commands.push(
+        'grep -Eq "(requires|may cause) replacement" diff.txt && RISKS="$RISKS resource-replacement" || true',
+      );
+    }
+    if (statefulResourceTypes.length > 0) {
+      commands.push(
+        `grep -Eq "^\\[-\\] (${statefulResourceTypes.join(
+          '|',
+        )}) " diff.txt && RISKS="$RISKS stateful-resource-deletion" || true`,
+      );
+    }
+    // the exported variables are shown by the approval, they cannot be empty
+    commands.push(
+      'RISKS="${RISKS# }"; RISKS="${RISKS:-none}"',
+      'SUMMARY="Risks: $RISKS. Resources: $(grep -c "^\\[+\\]" diff.txt) added, $(grep -c "^\\[~\\]" diff.txt) modified, $(grep -c "^\\[-\\]" diff.txt) removed, see the diff in the build log."',
+      'BUILD_URL="$CODEBUILD_BUILD_URL"',
+      'echo "$SUMMARY"',
+    );
+    if (notificationTopicArn) {
+      // SNS messages are limited to 256KB
+      commands.push(
+        `if [ "$RISKS" != "none" ]; then aws sns publish --topic-arn ${notificationTopicArn} --subject "Approval required for ${pipelineStageName} of ${pipelineName}" --message "$SUMMARY $(head -c 200000 diff.txt)"; fi`,
+      );
+    }
+
+    super('ChangeRiskCheck', {
+      input: props.input,
+      installCommands: [`npm install -g aws-cdk@${cdkCliVersion}`],
+      commands,
+      rolePolicyStatements: [
+        // cdk diff reads the deployed templates through the bootstrap roles
+        new PolicyStatement({
+          actions: ['sts:AssumeRole'],
+          resources: ['*'],
+          conditions: {
+            StringEquals: {
+              'iam:ResourceTag/aws-cdk:bootstrap-role': ['lookup', 'deploy'],
+            },
+          },
+        }),
+        ...(notificationTopicArn
+          ? [new PolicyStatement({ actions: ['sns:Publish'], resources: [notificationTopicArn] })]
+          : []),
+      ],
+    });
+
+    this.approval = new RiskSummaryApprovalStep(
+      'ApproveChanges',
+      this.exportedVariable('SUMMARY'),
+      this.exportedVariable('BUILD_URL'),
+    );
+
+    // the status of the approval in this execution, as the approval of a previous execution is
+    // the latest until this one is requested
+    const approvalStatus = `aws codepipeline list-action-executions --pipeline-name "$PIPELINE_NAME" --filter pipelineExecutionId="$EXECUTION_ID" --query "actionExecutionDetails[?stageName=='$STAGE_NAME' && actionName=='$ACTION_NAME'] | [0].status" --output text`;
+    const approvalToken = `aws codepipeline get-pipeline-state --name "$PIPELINE_NAME" --query "stageStates[?stageName=='$STAGE_NAME'] | [0].actionStates[?actionName=='$ACTION_NAME'] | [0].latestExecution.token" --output text`;
+    const stack = Stack.of(scope);
+    this.autoApproval = new CodeBuildStep('AutoApproveChanges', {
+      commands: [
+        'if [ "$RISKS" != "none" ]; then echo "Risky changes detected: $RISKS, leaving $ACTION_NAME pending for manual approval"; exit 0; fi',
+        'echo "No risky changes detected, approving $ACTION_NAME"',
+        // wait for the approval to be requested, unless a reviewer resolved it already
+        `WAIT_END=$(( $(date +%s) + ${APPROVAL_REQUEST_TIMEOUT} )); while [ $(date +%s) -lt $WAIT_END ]; do STATUS=$(${approvalStatus}); case "$STATUS" in InProgress) break ;; Succeeded|Failed|Abandoned) echo "$ACTION_NAME was already resolved: $STATUS"; exit 0 ;; esac; echo "Waiting for $ACTION_NAME to be requested"; sleep 10; done`,
+        `if [ "$STATUS" != "InProgress" ]; then echo "$ACTION_NAME was not requested within ${APPROVAL_REQUEST_TIMEOUT} seconds, leaving it pending for manual approval"; exit 1; fi`,
+        `aws codepipeline put-approval-result --pipeline-name "$PIPELINE_NAME" --stage-name "$STAGE_NAME" --action-name "$ACTION_NAME" --token "$(${approvalToken})" --result "summary=No risky changes detected,status=Approved"`,
+      ],
+      env: {
+        RISKS: this.exportedVariable('RISKS'),
+        PIPELINE_NAME: pipelineName,
+        STAGE_NAME: pipelineStageName,
+        ACTION_NAME: approvalActionName,
+        EXECUTION_ID: '#{codepipeline.PipelineExecutionId}',
+      },
+      rolePolicyStatements: [
+        new PolicyStatement({
+          actions: [
+            'codepipeline:GetPipelineState',
+            'codepipeline:ListActionExecutions',
+            'codepipeline:PutApprovalResult',
+          ],
+          resources: [
+            Arn.format({ service: 'codepipeline', resource: pipelineName }, stack),
+            Arn.format(
+              { service: 'codepipeline', resource: pipelineName, resourceName: '*' },
+              stack,
+            ),
+          ],
+        }),
+      ],
+    });
+  }
+
+  /**
+   * The steps to add before the stage is deployed, the check and the approval steps.
+   *
+   * @readonly
+   * @type {Step[]}
+   */
+  get steps(): Step[] {
+    return [this, this.approval, this.autoApproval];
+  }
+}
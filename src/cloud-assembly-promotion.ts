@@ -0,0 +1,259 @@
+import { Effect, PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { IBucket } from 'aws-cdk-lib/aws-s3';
+import { CodeBuildStep, IFileSetProducer } from 'aws-cdk-lib/pipelines';
+import { branchSlug } from './util';
+
+/**
+ * The key prefix, in the promotion bucket, of the cloud assemblies published by a branch pipeline.
+ *
+ * @export
+ * @param {string} componentName
+ * @param {string} branchName
+ * @returns {string}
+ */
+export function promotionKeyPrefix(componentName: string, branchName: string): string {
+  return `${componentName}/${branchSlug(branchName)}`;
+}
+
+/**
+ * The key, in the promotion bucket, of the latest cloud assembly promoted from a branch pipeline.
+ *
+ * @export
+ * @param {string} componentName
+ * @param {string} branchName
+ * @returns {string}
+ */
+export function promotedCloudAssemblyKey(componentName: string, branchName: string): string {
+  return `${promotionKeyPrefix(componentName, branchName)}/latest.zip`;
+}
+
+/**
+ * Properties for the promotion steps.
+ *
+ * @export
+ * @interface CloudAssemblyPromotionProps
+ * @typedef {CloudAssemblyPromotionProps}
+ */
+export interface CloudAssemblyPromotionProps {
+  /**
+   * The bucket the cloud assemblies are promoted through.
+   *
+   * @readonly
+   * @type {IBucket}
+   */
+  readonly promotionBucket: IBucket;
+  /**
+   * The name of the component.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly componentName: string;
+  /**
+   * The name of the branch the cloud assembly is built from.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly branchName: string;
+  /**
+   * The commit the cloud assembly is built from, ex. the `CommitId` of the pipeline source.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly commitId: string;
+}
+
+/**
+ * Properties for the CloudAssemblyCandidateStep.
+ *
+ * @export
+ * @interface CloudAssemblyCandidateStepProps
+ * @typedef {CloudAssemblyCandidateStepProps}
+ * @extends {CloudAssemblyPromotionProps}
+ */
+export interface CloudAssemblyCandidateStepProps extends CloudAssemblyPromotionProps {
+  /**
+   * The cloud assembly produced by the Synth step.
+   *
+   * @readonly
+   * @type {IFileSetProducer}
+   */
+  readonly input: IFileSetProducer;
+}
+
+/**
+ * CodeBuild step that uploads the cloud assembly, including its assets, to the promotion bucket
+ * as a candidate for promotion. Run it before the cloud assembly is trimmed.
+ *
+ * @export
+ * @class CloudAssemblyCandidateStep
+ * @typedef {CloudAssemblyCandidateStep}
+ * @extends {CodeBuildStep}
+ */
+export class CloudAssemblyCandidateStep extends CodeBuildStep {
+  /**
+   * Creates an instance of CloudAssemblyCandidateStep.
+   *
+   * @constructor
+   * @param {CloudAssemblyCandidateStepProps} props
+   */
+  constructor(props: CloudAssemblyCandidateStepProps) {
+    const { promotionBucket, componentName, branchName } = props;
+    const prefix = promotionKeyPrefix(componentName, branchName);
+
+    super('UploadPromotionCandidate', {
+      input: props.input,
+      env: { COMMIT_ID: props.commitId },
+      commands: [
+        'mkdir -p /tmp/candidate/assembly',
+        'cp -r . /tmp/candidate/assembly',
+        'cd /tmp/candidate && zip -r -q /tmp/candidate.zip .',
+        `aws s3 cp /tmp/candidate.zip s3://${promotionBucket.bucketName}/${prefix}/$COMMIT_ID/assembly.zip`,
+      ],
+      rolePolicyStatements: [
+        new PolicyStatement({
+          effect: Effect.ALLOW,
+          actions: ['s3:PutObject'],
+          resources: [promotionBucket.arnForObjects(`${prefix}/*`)],
+        }),
+      ],
+    });
+  }
+}
+
+/**
+ * CodeBuild step that promotes the candidate cloud assembly of a commit once every stage of the
+ * pipeline has been deployed. A `promotion.json` record is added to the promoted cloud assembly
+ * and kept next to the candidate.
+ *
+ * @export
+ * @class PromoteCloudAssemblyStep
+ * @typedef {PromoteCloudAssemblyStep}
+ * @extends {CodeBuildStep}
+ */
+export class PromoteCloudAssemblyStep extends CodeBuildStep {
+  /**
+   * Creates an instance of PromoteCloudAssemblyStep.
+   *
+   * @constructor
+   * @param {CloudAssemblyPromotionProps} props
+   */
+  constructor(props: CloudAssemblyPromotionProps) {
+    const { promotionBucket, componentName, branchName } = props;
+    const prefix = promotionKeyPrefix(componentName, branchName);
+    const location = `s3://${promotionBucket.bucketName}/${prefix}`;
+
+    super('PromoteCloudAssembly', {
+      env: {
+        COMMIT_ID: props.commitId,
+        COMPONENT_NAME: componentName,
+        SOURCE_BRANCH: branchName,
+        EXECUTION_ID: '#{codepipeline.PipelineExecutionId}',
+      },
+      commands: [
+        `aws s3 cp ${location}/$COMMIT_ID/assembly.zip /tmp/assembly.zip`,
+        "node -pe 'JSON.stringify({ componentName: process.env.COMPONENT_NAME, sourceBranch: process.env.SOURCE_BRANCH, commitId: process.env.COMMIT_ID, pipelineExecution: process.env.EXECUTION_ID, promotedAt: new Date().toISOString() }, null, 2)' > promotion.json",
+        'cat promotion.json',
+        'zip -q /tmp/assembly.zip promotion.json',
+        `aws s3 cp promotion.json ${location}/$COMMIT_ID/promotion.json`,
+        `aws s3 cp /tmp/assembly.zip ${location}/latest.zip`,
+      ],
+      rolePolicyStatements: [
+        new PolicyStatement({
+          effect: Effect.ALLOW,
+          actions: ['s3:GetObject', 's3:PutObject'],
+          resources: [promotionBucket.arnForObjects(`${prefix}/*`)],
+        }),
+      ],
+    });
+  }
+}
+
+/**
+ * Properties for the PromotedSynthStep.
+ *
+ * @export
+ * @interface PromotedSynthStepProps
+ * @typedef {PromotedSynthStepProps}
+ */
+export interface PromotedSynthStepProps {
+  /**
+   * The promoted cloud assembly, ex. an S3 source on the `latest.zip` of the upstream branch.
+   *
+   * @readonly
+   * @type {IFileSetProducer}
+   */
+  readonly input: IFileSetProducer;
+  /**
+   * The bucket the cloud assemblies are promoted through.
+   *
+   * @readonly
+   * @type {IBucket}
+   */
+  readonly promotionBucket: IBucket;
+  /**
+   * The name of the component.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly componentName: string;
+  /**
+   * The branch the cloud assembly is promoted from.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly promoteFrom: string;
+  /**
+   * The branch the cloud assembly is promoted to.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly branchName: string;
+}
+
+/**
+ * Synth step of a pipeline that deploys a cloud assembly promoted from an upstream branch pipeline
+ * rather than synthesizing its own. Records which cloud assembly was promoted to the branch next
+ * to the upstream `promotion.json`.
+ *
+ * @export
+ * @class PromotedSynthStep
+ * @typedef {PromotedSynthStep}
+ * @extends {CodeBuildStep}
+ */
+export class PromotedSynthStep extends CodeBuildStep {
+  /**
+   * Creates an instance of PromotedSynthStep.
+   *
+   * @constructor
+   * @param {PromotedSynthStepProps} props
+   */
+  constructor(props: PromotedSynthStepProps) {
+    const { promotionBucket, componentName, promoteFrom, branchName } = props;
+    const prefix = promotionKeyPrefix(componentName, promoteFrom);
+
+    super('Synth', {
+      input: props.input,
+      commands: [
+        'cat promotion.json',
+        'COMMIT_ID=$(node -pe \'require("./promotion.json").commitId\')',
+        `aws s3 cp promotion.json s3://${
+          promotionBucket.bucketName
+        }/${prefix}/$COMMIT_ID/promoted-to-${branchSlug(branchName)}.json`,
+      ],
+      primaryOutputDirectory: 'assembly',
+      rolePolicyStatements: [
+        new PolicyStatement({
+          effect: Effect.ALLOW,
+          actions: ['s3:PutObject'],
+          resources: [promotionBucket.arnForObjects(`${prefix}/*`)],
+        }),
+      ],
+    });
+  }
+}
@@ -0,0 +1,96 @@
+import { Effect, PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import {
+  CodeArtifactAuthTokenAccessStatement,
+  parseRepositoryArn,
+} from './codeartifact-auth-token-access-statement';
+import { PackageManager } from './package-manager';
+
+/**
+ * Configuration for installing packages from a CodeArtifact repository.
+ *
+ * @export
+ * @interface CodeArtifactConfig
+ * @typedef {CodeArtifactConfig}
+ */
+export interface CodeArtifactConfig {
+  /**
+   * The arn of the CodeArtifact repository, ex.
+   * `arn:aws:codeartifact:us-east-1:123456789012:repository/my-domain/my-repo`.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly repositoryArn: string;
+  /**
+   * Only install the packages of this scope from the repository, ex. `@my-org`.
+   *
+   * @readonly
+   * @type {?string}
+   * @default - all packages are installed from the repository
+   */
+  readonly namespace?: string;
+}
+
+/**
+ * Commands that log the package manager into the CodeArtifact repository, run these before
+ * installing dependencies. npm, yarn classic, pnpm and bun all read the npm configuration written
+ * by `aws codeartifact login`, Yarn Berry is configured through `yarn config`.
+ *
+ * @export
+ * @param {CodeArtifactConfig} config
+ * @param {?PackageManager} [pkgManager] - The package manager to log in.
+ * @returns {string[]}
+ */
+export function codeArtifactLoginCommands(
+  config: CodeArtifactConfig,
+  pkgManager?: PackageManager,
+): string[] {
+  const { region, domainOwner, domain, repository } = parseRepositoryArn(config.repositoryArn);
+  const repositoryOptions = `--domain ${domain} --domain-owner ${domainOwner} --region ${region}`;
+
+  if (pkgManager?.yarnBerry) {
+    const scope = config.namespace ? `npmScopes.${config.namespace.replace(/^@/, '')}.` : '';
+    return [
+      `CODEARTIFACT_AUTH_TOKEN=$(aws codeartifact get-authorization-token ${repositoryOptions} --query authorizationToken --output text)`,
+      `CODEARTIFACT_ENDPOINT=$(aws codeartifact get-repository-endpoint ${repositoryOptions} --repository ${repository} --format npm --query repositoryEndpoint --output text)`,
+      `yarn config set ${scope}npmRegistryServer "$CODEARTIFACT_ENDPOINT"`,
+      `yarn config set ${scope}npmAlwaysAuth true`,
+      `yarn config set ${scope}npmAuthToken "$CODEARTIFACT_AUTH_TOKEN"`,
+    ];
+  }
+
+  return [
+    [
+      'aws codeartifact login --tool npm',
+      `--domain ${domain}`,
+      `--domain-owner ${domainOwner}`,
+      `--repository ${repository}`,
+      `--region ${region}`,
+      ...(config.namespace ? [`--namespace ${config.namespace}`] : []),
+    ].join(' '),
+  ];
+}
+
+/**
+ * Policy statements that allow installing packages from the CodeArtifact repository.
+ *
+ * @export
+ * @param {CodeArtifactConfig} config
+ * @returns {PolicyStatement[]}
+ */
+export function codeArtifactReadStatements(config: CodeArtifactConfig): PolicyStatement[] {
+  return [
+    new CodeArtifactAuthTokenAccessStatement(config.repositoryArn),
+    new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: ['codeartifact:GetRepositoryEndpoint', 'codeartifact:ReadFromRepository'],
+      resources: [config.repositoryArn],
+    }),
+    new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: ['sts:GetServiceBearerToken'],
+      resources: ['*'],
+      conditions: { StringEquals: { 'sts:AWSServiceName': 'codeartifact.amazonaws.com' } },
+    }),
+  ];
+}
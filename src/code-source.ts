@@ -1,6 +1,35 @@
 import { Repository } from 'aws-cdk-lib/aws-codecommit';
-import { CodePipelineSource, ConnectionSourceOptions } from 'aws-cdk-lib/pipelines';
+import { Repository as EcrRepository } from 'aws-cdk-lib/aws-ecr';
+import { Bucket } from 'aws-cdk-lib/aws-s3';
+import {
+  CodePipelineSource,
+  ConnectionSourceOptions,
+  ECRSourceOptions,
+  S3SourceOptions,
+} from 'aws-cdk-lib/pipelines';
 import { Construct } from 'constructs';
+import { get } from 'lodash';
+
+/**
+ * The type of source for the pipeline.
+ *
+ * @export
+ * @enum {string}
+ */
+export enum SourceType {
+  /** A CodeCommit repository. */
+  CODECOMMIT = 'CodeCommit',
+  /** A GitHub repository, through a CodeStar connection. */
+  GITHUB = 'GitHub',
+  /** A Bitbucket repository, through a CodeStar connection. */
+  BITBUCKET = 'Bitbucket',
+  /** A GitLab repository, through a CodeStar connection. */
+  GITLAB = 'GitLab',
+  /** A zip file in an S3 bucket. */
+  S3 = 'S3',
+  /** An image in an ECR repository. */
+  ECR = 'ECR',
+}
 
 /**
  * Configuration for specifying a codecommit repository as the source.
@@ -10,6 +39,14 @@ import { Construct } from 'constructs';
  * @typedef {CodeCommitSourceConfig}
  */
 export interface CodeCommitSourceConfig {
+  /**
+   * The type of source. Optional for backwards compatibility, configurations without a type are
+   * detected by the `codeCommitArn` property.
+   *
+   * @readonly
+   * @type {?SourceType.CODECOMMIT}
+   */
+  readonly type?: SourceType.CODECOMMIT;
   /**
    * ARN of the CodeCommit repository to use.
    *
@@ -27,6 +64,14 @@ export interface CodeCommitSourceConfig {
  * @typedef {GitHubSourceConfig}
  */
 export interface GitHubSourceConfig {
+  /**
+   * The type of source. Optional for backwards compatibility, configurations without a type are
+   * detected by the `owner` property.
+   *
+   * @readonly
+   * @type {?SourceType.GITHUB}
+   */
+  readonly type?: SourceType.GITHUB;
   /**
    * The owner of the GitHub repository.
    *
@@ -43,6 +88,164 @@ export interface GitHubSourceConfig {
   readonly options: ConnectionSourceOptions;
 }
 
+/**
+ * Configuration for specifying a Bitbucket repository as the source.
+ *
+ * @export
+ * @interface BitbucketSourceConfig
+ * @typedef {BitbucketSourceConfig}
+ */
+export interface BitbucketSourceConfig {
+  /**
+   * The type of source.
+   *
+   * @readonly
+   * @type {SourceType.BITBUCKET}
+   */
+  readonly type: SourceType.BITBUCKET;
+  /**
+   * The repository in the form `workspace/repository`.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly repoString: string;
+  /**
+   * CodeStar connection options. Bitbucket sources require use of a CodeStar connection.
+   *
+   * @readonly
+   * @type {ConnectionSourceOptions}
+   */
+  readonly options: ConnectionSourceOptions;
+}
+
+/**
+ * Configuration for specifying a GitLab repository as the source.
+ *
+ * @export
+ * @interface GitLabSourceConfig
+ * @typedef {GitLabSourceConfig}
+ */
+export interface GitLabSourceConfig {
+  /**
+   * The type of source.
+   *
+   * @readonly
+   * @type {SourceType.GITLAB}
+   */
+  readonly type: SourceType.GITLAB;
+  /**
+   * The repository in the form `group/project`.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly repoString: string;
+  /**
+   * CodeStar connection options. GitLab sources require use of a CodeStar connection.
+   *
+   * @readonly
+   * @type {ConnectionSourceOptions}
+   */
+  readonly options: ConnectionSourceOptions;
+}
+
+/**
+ * Configuration for specifying a zip file in an S3 bucket as the source.
+ *
+ * @export
+ * @interface S3SourceConfig
+ * @typedef {S3SourceConfig}
+ */
+export interface S3SourceConfig {
+  /**
+   * The type of source.
+   *
+   * @readonly
+   * @type {SourceType.S3}
+   */
+  readonly type: SourceType.S3;
+  /**
+   * The name of the bucket, the bucket must be versioned.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly bucketName: string;
+  /**
+   * The key of the zip file in the bucket.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly objectKey: string;
+  /**
+   * Additional options for the S3 source.
+   *
+   * @readonly
+   * @type {?S3SourceOptions}
+   */
+  readonly options?: S3SourceOptions;
+}
+
+/**
+ * Configuration for specifying an image in an ECR repository as the source.
+ *
+ * @export
+ * @interface EcrSourceConfig
+ * @typedef {EcrSourceConfig}
+ */
+export interface EcrSourceConfig {
+  /**
+   * The type of source.
+   *
+   * @readonly
+   * @type {SourceType.ECR}
+   */
+  readonly type: SourceType.ECR;
+  /**
+   * The name of the ECR repository.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly repositoryName: string;
+  /**
+   * Additional options for the ECR source, including the image tag to watch.
+   *
+   * @readonly
+   * @type {?ECRSourceOptions}
+   */
+  readonly options?: ECRSourceOptions;
+}
+
+/**
+ * The properties required by each type of source.
+ */
+const REQUIRED_PROPERTIES: Record<SourceType, string[]> = {
+  [SourceType.CODECOMMIT]: ['codeCommitArn'],
+  [SourceType.GITHUB]: ['owner', 'options.connectionArn'],
+  [SourceType.BITBUCKET]: ['repoString', 'options.connectionArn'],
+  [SourceType.GITLAB]: ['repoString', 'options.connectionArn'],
+  [SourceType.S3]: ['bucketName', 'objectKey'],
+  [SourceType.ECR]: ['repositoryName'],
+};
+
+/**
+ * Determine the type of a source configuration, falling back to detecting legacy CodeCommit and
+ * GitHub configurations that do not specify a `type`.
+ *
+ * @export
+ * @param {RepositoryConfig['source']} config
+ * @returns {(SourceType | undefined)}
+ */
+export function sourceTypeOf(config: RepositoryConfig['source']): SourceType | undefined {
+  if (config.type) return config.type;
+  if ((config as CodeCommitSourceConfig).codeCommitArn) return SourceType.CODECOMMIT;
+  if ((config as GitHubSourceConfig).owner) return SourceType.GITHUB;
+  return undefined;
+}
+
 /**
  * The configuration for the source of the pipeline.
  *
@@ -66,12 +269,19 @@ export interface RepositoryConfig {
    * @default './out'
    */
   readonly synthOuputDir?: string;
-  readonly source: GitHubSourceConfig | CodeCommitSourceConfig;
+  readonly source:
+    | GitHubSourceConfig
+    | CodeCommitSourceConfig
+    | BitbucketSourceConfig
+    | GitLabSourceConfig
+    | S3SourceConfig
+    | EcrSourceConfig;
 }
 
 /**
- * Configuration properties for the code source repository. Currently supports CodeCommit and GitHub Sources.
- * GitHub source requrires a preexisting CodeStarConnection.
+ * Configuration properties for the code source repository. Currently supports CodeCommit, GitHub,
+ * Bitbucket, GitLab, S3 and ECR sources. GitHub, Bitbucket and GitLab sources require a preexisting
+ * CodeStarConnection.
  * @export
  * @class CodeSource
  * @typedef {CodeSource}
@@ -94,27 +304,67 @@ export class CodeSource extends Construct {
    * @param {string} branchName
    * @param {RepositoryConfig} config
    */
-  constructor(
-    scope: Construct,
-    branchName: string,
-    config: CodeCommitSourceConfig | GitHubSourceConfig,
-  ) {
+  constructor(scope: Construct, branchName: string, config: RepositoryConfig['source']) {
     super(scope, 'CodeSource');
-    let codeCommitSource = config as CodeCommitSourceConfig;
-    let githubSource = config as GitHubSourceConfig;
-    if (codeCommitSource && codeCommitSource.codeCommitArn) {
-      this.source = CodePipelineSource.codeCommit(
-        Repository.fromRepositoryArn(this, 'Repository', codeCommitSource.codeCommitArn),
-        branchName,
-      );
-    } else if (githubSource && githubSource.owner) {
-      this.source = CodePipelineSource.connection(
-        githubSource.owner,
-        branchName,
-        githubSource.options,
-      );
-    } else {
-      throw new Error('Improper configuration');
+
+    const type = sourceTypeOf(config);
+    if (!type) {
+      throw new Error('Improper configuration: the source `type` must be specified');
+    }
+    if (!REQUIRED_PROPERTIES[type]) {
+      throw new Error(`Improper configuration: unsupported source type '${type}'`);
+    }
+    REQUIRED_PROPERTIES[type].forEach(property => {
+      if (!get(config, property)) {
+        throw new Error(
+          `Improper configuration: ${type} source configuration is missing required property '${property}'`,
+        );
+      }
+    });
+
+    const codeCommitSource = config as CodeCommitSourceConfig;
+    const connectionSource = config as
+      | GitHubSourceConfig
+      | BitbucketSourceConfig
+      | GitLabSourceConfig;
+    const s3Source = config as S3SourceConfig;
+    const ecrSource = config as EcrSourceConfig;
+
+    switch (type) {
+      case SourceType.CODECOMMIT:
+        this.source = CodePipelineSource.codeCommit(
+          Repository.fromRepositoryArn(this, 'Repository', codeCommitSource.codeCommitArn),
+          branchName,
+        );
+        break;
+      case SourceType.GITHUB:
+        this.source = CodePipelineSource.connection(
+          (config as GitHubSourceConfig).owner,
+          branchName,
+          connectionSource.options,
+        );
+        break;
+      case SourceType.BITBUCKET:
+      case SourceType.GITLAB:
+        this.source = CodePipelineSource.connection(
+          (config as BitbucketSourceConfig | GitLabSourceConfig).repoString,
+          branchName,
+          connectionSource.options,
+        );
+        break;
+      case SourceType.S3:
+        this.source = CodePipelineSource.s3(
+          Bucket.fromBucketName(this, 'Bucket', s3Source.bucketName),
+          s3Source.objectKey,
+          s3Source.options,
+        );
+        break;
+      case SourceType.ECR:
+        this.source = CodePipelineSource.ecr(
+          EcrRepository.fromRepositoryName(this, 'Repository', ecrSource.repositoryName),
+          ecrSource.options,
+        );
+        break;
     }
   }
 }
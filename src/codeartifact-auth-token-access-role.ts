@@ -1,11 +1,12 @@
 import { AccountRootPrincipal, PolicyDocument, Role, RoleProps } from 'aws-cdk-lib/aws-iam';
 import { Construct } from 'constructs';
 import { merge } from 'lodash';
-import { CodeArtifactAuthTokenAccessStatement } from './codeartifact-auth-token-access-statement';
+import { codeArtifactReadStatements } from './code-artifact';
 
 export interface CodeArtifactAuthTokenAccessRoleProps {
   /**
-   * The arn of the CodeArtifacts repository. The CodeArtifactAuthTokenAccessStatement is added as an inline policy.
+   * The arn of the CodeArtifacts repository. The CodeArtifactAuthTokenAccessStatement, and the
+   * statements needed to install packages from the repository, are added as an inline policy.
    * The assumedBy principal defaults to AccountRootPrincipal.
    *
    * @readonly
@@ -47,7 +48,9 @@ export class CodeArtifactAuthTokenAccessRole extends Role {
       assumedBy,
       inlinePolicies: merge(inlinePolicies, {
         CodeArtifactAuthTokenAccessStatement: new PolicyDocument({
-          statements: [new CodeArtifactAuthTokenAccessStatement(props.codeArtifactRepositoryArn)],
+          statements: codeArtifactReadStatements({
+            repositoryArn: props.codeArtifactRepositoryArn,
+          }),
         }),
       }),
     });
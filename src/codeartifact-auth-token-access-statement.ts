@@ -1,7 +1,51 @@
+import { Token } from 'aws-cdk-lib';
 import { Effect, PolicyStatement } from 'aws-cdk-lib/aws-iam';
 
 /**
- * A PolicyStatement that grants permissions to access the CodeArtifact repository authorization token.
+ * The parts of a CodeArtifact repository arn.
+ *
+ * @export
+ * @interface CodeArtifactRepository
+ * @typedef {CodeArtifactRepository}
+ */
+export interface CodeArtifactRepository {
+  readonly partition: string;
+  readonly region: string;
+  readonly domainOwner: string;
+  readonly domain: string;
+  readonly repository: string;
+}
+
+/**
+ * Split a CodeArtifact repository arn into its parts.
+ *
+ * @export
+ * @param {string} repositoryArn
+ * @returns {CodeArtifactRepository}
+ */
+export function parseRepositoryArn(repositoryArn: string): CodeArtifactRepository {
+  if (Token.isUnresolved(repositoryArn)) {
+    throw new Error('The CodeArtifact repositoryArn must be a literal string, not a token');
+  }
+
+  const [arn, partition, service, region, domainOwner, resource = ''] = repositoryArn.split(':');
+  const [resourceType, domain, repository] = resource.split('/');
+  if (
+    arn !== 'arn' ||
+    service !== 'codeartifact' ||
+    resourceType !== 'repository' ||
+    !domain ||
+    !repository
+  ) {
+    throw new Error(`'${repositoryArn}' is not a CodeArtifact repository arn`);
+  }
+  return { partition, region, domainOwner, domain, repository };
+}
+
+/**
+ * A PolicyStatement that grants permissions to get an authorization token for the domain of a
+ * CodeArtifact repository. The token is also issued through `sts:GetServiceBearerToken`, see
+ * `codeArtifactReadStatements` for all the statements needed to install packages.
  *
  * @export
  * @class CodeArtifactAuthTokenAccessStatement
@@ -10,19 +54,19 @@ import { Effect, PolicyStatement } from 'aws-cdk-lib/aws-iam';
  */
 export class CodeArtifactAuthTokenAccessStatement extends PolicyStatement {
   /**
-   * A PolicyStatement that grants permissions to access the CodeArtifact repository authorization token.
+   * A PolicyStatement that grants permissions to get an authorization token for the domain of a
+   * CodeArtifact repository.
    *
    * @constructor
-   * @param {Construct} scope
-   * @param {string} id
    * @param {string} codeArtifactRepositoryArn
-   * @param {?CodeArtifactAuthTokenAccessStatementProps} [props]
    */
   constructor(codeArtifactRepositoryArn: string) {
+    const { partition, region, domainOwner, domain } =
+      parseRepositoryArn(codeArtifactRepositoryArn);
     super({
       effect: Effect.ALLOW,
-      actions: ['codeartifact:GetAuthorizationToken', 'sts:GetServiceBearerToken'],
-      resources: [codeArtifactRepositoryArn],
+      actions: ['codeartifact:GetAuthorizationToken'],
+      resources: [`arn:${partition}:codeartifact:${region}:${domainOwner}:domain/${domain}`],
     });
   }
 }
@@ -1,20 +1,95 @@
-import { Stack, StackProps, StageProps } from 'aws-cdk-lib';
-import { ComputeType } from 'aws-cdk-lib/aws-codebuild';
+import { Annotations, Lazy, Stack, StackProps, Stage, StageProps, Tags } from 'aws-cdk-lib';
+import {
+  BuildEnvironmentVariable,
+  BuildSpec,
+  Cache,
+  ComputeType,
+  LocalCacheMode,
+  mergeBuildSpecs,
+} from 'aws-cdk-lib/aws-codebuild';
+import { CfnPipeline } from 'aws-cdk-lib/aws-codepipeline';
+import { Bucket, IBucket } from 'aws-cdk-lib/aws-s3';
 import {
   ShellStep,
   AddStageOpts,
   CodePipeline,
+  CodePipelineSource,
   ManualApprovalStep,
   CodeBuildOptions,
   CodePipelineProps,
+  StageDeployment,
+  Step,
+  Wave,
+  WaveOptions,
 } from 'aws-cdk-lib/pipelines';
 import { Construct } from 'constructs';
 import { merge } from 'lodash';
+import { BakeTimeConfig, BakeTimeStep, CaptureStackTemplatesStep } from './bake-time';
 import { ComponentConfig, IDeploymentBranch } from './branch-pipelines';
-import { CodeSource, RepositoryConfig } from './code-source';
-import { PipelineEventNotificationRule } from './pipeline-event-notification-rule';
+import { ChangeRiskApprovalStep, RiskAwareApprovalConfig } from './change-risk-approval-step';
+import {
+  CloudAssemblyCandidateStep,
+  PromoteCloudAssemblyStep,
+  PromotedSynthStep,
+  promotedCloudAssemblyKey,
+} from './cloud-assembly-promotion';
+import {
+  CodeArtifactConfig,
+  codeArtifactLoginCommands,
+  codeArtifactReadStatements,
+} from './code-artifact';
+import { CodeSource, RepositoryConfig, SourceType, sourceTypeOf } from './code-source';
+import { ConfiguredStageProps, mergeConfigLayers } from './configured-stage';
+import { DeploymentWindowStep, DeploymentWindowsConfig } from './deployment-window-step';
+import {
+  PipelineEventNotificationRule,
+  PipelineNotificationConfig,
+} from './pipeline-event-notification-rule';
+import { PipelineDashboard, PipelineMetrics } from './pipeline-metrics';
+import { SmokeTestConfig, SmokeTestStep } from './smoke-test-step';
+import { StageTtl, StageTtlConfig } from './stage-ttl';
+import { TestStep, TestStepConfig } from './test-step';
 import { TrimCloudAssemblyStep } from './trim-cloud-assembly-step';
-import { defineSynthCommands } from './util';
+import { defineCacheSpec, defineSynthCommands } from './util';
+
+/**
+ * The keys of the tags the pipelines and the stacks of their stages are tagged with, for cost
+ * allocation and ownership.
+ *
+ * @export
+ * @enum {string}
+ */
+export enum BranchPipelinesTag {
+  /**
+   * The name of the component.
+   */
+  COMPONENT = 'branch-pipelines:component',
+  /**
+   * The name of the stage, stacks of stages only.
+   */
+  STAGE = 'branch-pipelines:stage',
+  /**
+   * The name of the deployment branch.
+   */
+  BRANCH = 'branch-pipelines:branch',
+  /**
+   * The commit the stage was synthesized from, on the stacks of stages only when `tagCommit` is
+   * enabled. Only known when the stage is synthesized by the pipeline.
+   */
+  COMMIT = 'branch-pipelines:commit',
+}
+
+/**
+ * Tag every taggable resource in the scope, skipping empty values.
+ *
+ * @param {Construct} scope
+ * @param {Record<string, string | undefined>} tags
+ */
+function addTags(scope: Construct, tags: Record<string, string | undefined>): void {
+  Object.entries(tags).forEach(([key, value]) => {
+    if (value) Tags.of(scope).add(key, value);
+  });
+}
 
 /**
  * Configuration for the stage.
@@ -40,7 +115,65 @@ export interface StageConfig<TConfig> extends StageProps {
    */
   readonly manualApproval?: boolean;
   /**
-   * The generic config.
+   * Diff the stage against what is deployed and only pause for manual approval when risky changes
+   * are detected, ex. IAM broadening, resource replacements or deletion of stateful resources.
+   * Takes precedence over `manualApproval`.
+   *
+   * @readonly
+   * @type {?RiskAwareApprovalConfig}
+   */
+  readonly riskAwareApproval?: RiskAwareApprovalConfig;
+  /**
+   * Additional steps to run after the stage has been deployed. A failing step fails the pipeline
+   * before the next stage is promoted.
+   *
+   * @readonly
+   * @type {?Step[]}
+   */
+  readonly postDeploymentSteps?: Step[];
+  /**
+   * Smoke tests to run after the stage has been deployed, these run after any `postDeploymentSteps`
+   * have been added and can use the stage's CfnOutputs as environment variables.
+   *
+   * @readonly
+   * @type {?SmokeTestConfig[]}
+   */
+  readonly smokeTests?: SmokeTestConfig[];
+  /**
+   * Watch alarms for a while after the stage has been deployed, after the `postDeploymentSteps`
+   * and `smokeTests`. The pipeline fails, and the stacks of the stage are rolled back to the
+   * templates deployed before, when an alarm fires.
+   *
+   * @readonly
+   * @type {?BakeTimeConfig}
+   */
+  readonly bakeTime?: BakeTimeConfig;
+  /**
+   * Only deploy the stage inside deployment windows and outside of freeze periods, ex. during
+   * business hours. Enforced right before the stage is deployed, after any manual approval.
+   *
+   * @readonly
+   * @type {?DeploymentWindowsConfig}
+   */
+  readonly deploymentWindows?: DeploymentWindowsConfig;
+  /**
+   * Destroy the stacks of the stage once none of them has been deployed for a while, ex. for the
+   * stages of short-lived branches. Overrides the `ttl` of the deployment branch.
+   *
+   * @readonly
+   * @type {?StageTtlConfig}
+   */
+  readonly ttl?: StageTtlConfig;
+  /**
+   * Tags added to every stack of the stage, over the `tags` of the component.
+   *
+   * @readonly
+   * @type {?Record<string, string>}
+   */
+  readonly tags?: Record<string, string>;
+  /**
+   * The generic config, deep merged over the `baseConfig` of the component and the `config` of
+   * the deployment branch.
    *
    * @readonly
    * @type {TConfig}
@@ -48,6 +181,103 @@ export interface StageConfig<TConfig> extends StageProps {
   readonly config: TConfig;
 }
 
+/**
+ * Configuration for a wave of stages that are deployed in parallel.
+ *
+ * @export
+ * @interface WaveConfig
+ * @typedef {WaveConfig}
+ * @template TConfig
+ */
+export interface WaveConfig<TConfig> {
+  /**
+   * The name of the wave.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly name: string;
+  /**
+   * Configuration for the stages deployed in parallel by this wave.
+   *
+   * @readonly
+   * @type {StageConfig<TConfig>[]}
+   */
+  readonly stages: StageConfig<TConfig>[];
+  /**
+   * Add a manual approval step before deploying the stages of this wave.
+   *
+   * @readonly
+   * @type {?boolean}
+   */
+  readonly manualApproval?: boolean;
+  /**
+   * Additional steps to run before any of the stages in the wave.
+   *
+   * @readonly
+   * @type {?Step[]}
+   */
+  readonly pre?: Step[];
+  /**
+   * Additional steps to run after all of the stages in the wave.
+   *
+   * @readonly
+   * @type {?Step[]}
+   */
+  readonly post?: Step[];
+}
+
+/**
+ * Where the CodeBuild projects of the pipeline cache dependencies.
+ *
+ * @export
+ * @enum {string}
+ */
+export enum PipelineCacheType {
+  /**
+   * Cache in S3, shared by all build hosts.
+   */
+  S3 = 'S3',
+  /**
+   * Cache on the build host, only available to builds that land on the same host.
+   */
+  LOCAL = 'LOCAL',
+}
+
+/**
+ * Configuration for caching dependencies between pipeline runs.
+ *
+ * @export
+ * @interface PipelineCacheConfig
+ * @typedef {PipelineCacheConfig}
+ */
+export interface PipelineCacheConfig {
+  /**
+   * Where to cache the dependencies.
+   *
+   * @readonly
+   * @type {?PipelineCacheType}
+   * @default PipelineCacheType.S3
+   */
+  readonly type?: PipelineCacheType;
+  /**
+   * The bucket to cache in when using an S3 cache.
+   *
+   * @readonly
+   * @type {?IBucket}
+   * @default - the pipeline artifact bucket
+   */
+  readonly bucket?: IBucket;
+  /**
+   * The key prefix to cache under when using an S3 cache.
+   *
+   * @readonly
+   * @type {?string}
+   * @default 'cache'
+   */
+  readonly prefix?: string;
+}
+
 /**
  *
  * @export
@@ -65,15 +295,33 @@ export interface PipelineConfig {
    */
   readonly pruneCloudAssembly?: boolean;
   /**
+   * Patterns of the files and directories to strip from the cloud assembly when
+   * `pruneCloudAssembly` is enabled, relative to the root of the cloud assembly.
+   *
+   * @readonly
+   * @type {?string[]}
+   * @default ['asset.*']
+   */
+  readonly pruneCloudAssemblyPatterns?: string[];
+  /**
+   * ARN of an SNS topic notified of failed and succeeded pipeline executions and needed approvals.
    *
    * @readonly
    * @type {?string}
    */
   readonly notificationTopicArn?: string;
+  /**
+   * Notify SNS topics and AWS Chatbot Slack channels of the pipeline events. Combined with
+   * `notificationTopicArn` when both are specified.
+   *
+   * @readonly
+   * @type {?PipelineNotificationConfig}
+   */
+  readonly notifications?: PipelineNotificationConfig;
 
   /**
    * CodeBuild options for the asset publishing step. Maps to the CodePipelineProps assetPublishingCodeBuildDefaults.
-   * These will be merged with options to handle CodeArtifacts repositories if `codeArtifactRepositoryArn` is also specified.
+   * These will be merged with options to handle CodeArtifacts repositories if `codeArtifact` is also specified.
    * @readonly
    */
   readonly assetPublishingCodeBuildDefaults?: CodePipelineProps['assetPublishingCodeBuildDefaults'];
@@ -83,6 +331,62 @@ export interface PipelineConfig {
    * @default - Only `codeBuildDefaults` are applied
    */
   readonly synthCodeBuildDefaults?: CodePipelineProps['synthCodeBuildDefaults'];
+  /**
+   * Environment variables of the synth project, plaintext or resolved by CodeBuild from SSM
+   * Parameter Store or Secrets Manager, ex.
+   * `{ API_KEY: { type: BuildEnvironmentVariableType.SECRETS_MANAGER, value: 'api-key' } }`. The
+   * synth project is granted read access to the referenced parameters and secrets.
+   *
+   * @default - No additional environment variables
+   */
+  readonly synthEnv?: Record<string, BuildEnvironmentVariable>;
+  /**
+   * Run the project tests before synth, publishing the results to CodeBuild report groups. The
+   * Synth step does not run when the tests fail.
+   *
+   * @default - No tests are run
+   */
+  readonly testStep?: TestStepConfig;
+  /**
+   * Install packages from a CodeArtifact repository. The synth, test and asset publishing projects
+   * are granted access to the repository and logged into it before dependencies are installed.
+   *
+   * Docker assets can install from the repository by mounting the npm configuration written by the
+   * login, ex. `buildSecrets: { npmrc: DockerBuildSecret.fromSrc('/root/.npmrc') }` and
+   * `RUN --mount=type=secret,id=npmrc,target=/root/.npmrc npm ci` in the Dockerfile.
+   *
+   * @default - packages are installed from the public registry
+   */
+  readonly codeArtifact?: CodeArtifactConfig;
+  /**
+   * Install dependencies in frozen lockfile mode, ex. `yarn install --immutable`, so the builds
+   * fail rather than update an outdated lock file.
+   *
+   * @default false
+   */
+  readonly frozenLockfile?: boolean;
+  /**
+   * Cache the package manager cache and `node_modules` of the synth project, and the npm cache of
+   * the asset publishing projects, keyed by the hash of the lock file.
+   *
+   * @default - No caching
+   */
+  readonly cache?: PipelineCacheConfig;
+  /**
+   * Publish the execution duration, stage durations, failure rate and manual approval wait time of
+   * the pipeline as CloudWatch metrics, and create an operational dashboard for the pipeline.
+   *
+   * @default false
+   */
+  readonly dashboard?: boolean;
+  /**
+   * Tag the stacks of the stages with the commit they were synthesized from, see
+   * `BranchPipelinesTag.COMMIT`. The tag is set on the stacks rather than on each resource, but
+   * CloudFormation propagates stack tags to the resources, so every commit updates their tags.
+   *
+   * @default false
+   */
+  readonly tagCommit?: boolean;
 }
 
 /**
@@ -106,6 +410,30 @@ export interface ComponentPipelineStackProps<TConfig, TBranch extends IDeploymen
   readonly repository: RepositoryConfig;
   readonly pipelineConfig: PipelineConfig;
   readonly component: ComponentConfig;
+  /**
+   * The bucket cloud assemblies are promoted through between branch pipelines. Required when the
+   * branch is promoted from another branch or `publishPromotions` is set.
+   *
+   * @readonly
+   * @type {?IBucket}
+   */
+  readonly promotionBucket?: IBucket;
+  /**
+   * Publish the cloud assembly of this pipeline to the `promotionBucket` once every stage has been
+   * deployed, for downstream branches to promote.
+   *
+   * @readonly
+   * @type {?boolean}
+   */
+  readonly publishPromotions?: boolean;
+  /**
+   * Additional arguments of `cdk synth` in the Synth step, ex. the context that selects an
+   * ephemeral branch.
+   *
+   * @readonly
+   * @type {?string[]}
+   */
+  readonly synthArgs?: string[];
 }
 
 /**
@@ -126,6 +454,10 @@ export class ComponentPipelineStack<
    * Instance of the CDK.CodePipeline created
    */
   readonly codePipeline: CodePipeline;
+  /**
+   * The metrics of the pipeline, if `dashboard` is enabled.
+   */
+  readonly pipelineMetrics?: PipelineMetrics;
 
   /**
    * Creates an instance of IndividualPipelineStack.
@@ -138,22 +470,73 @@ export class ComponentPipelineStack<
   constructor(scope: Construct, id: string, props: ComponentPipelineStackProps<TConfig, TBranch>) {
     super(scope, id, props);
 
-    const { staticPipelineIdentifier = props.branch.branchName, branchName } = props.branch;
-    const { componentName, componentType } = props.component;
+    const {
+      staticPipelineIdentifier = props.branch.branchName,
+      branchName,
+      stages = [],
+      waves = [],
+      promoteFrom,
+      ttl,
+      config: branchConfig,
+    } = props.branch;
+    const { promotionBucket, publishPromotions } = props;
+    const {
+      componentName,
+      componentType,
+      sourcePathFilters = [],
+      baseConfig,
+      tags: componentTags,
+    } = props.component;
     const {
       pruneCloudAssembly = true,
+      pruneCloudAssemblyPatterns,
       notificationTopicArn,
+      notifications,
       synthCodeBuildDefaults: codeBuildOptions,
+      synthEnv,
       assetPublishingCodeBuildDefaults,
+      testStep: testStepConfig,
+      codeArtifact,
+      frozenLockfile,
+      cache: cacheConfig,
+      dashboard,
+      tagCommit,
     } = props.pipelineConfig;
 
-    const { source, synthOuputDir = 'out', baseDir = '.' } = props.repository;
+    const { source, synthOuputDir = 'out' } = props.repository;
+    const baseDir = props.component.baseDir ?? props.repository.baseDir ?? '.';
 
     // Static Pipeline id
     const pipelineId = `${componentName}-${staticPipelineIdentifier}`;
 
     // Branch-based pipeline name
     const pipelineName = `${componentName}-${branchName.replace('/', '-')}`;
+
+    if ((promoteFrom || publishPromotions) && !promotionBucket) {
+      throw new Error(
+        `Improper configuration: promoting the ${componentName} cloud assembly requires a promotionBucket`,
+      );
+    }
+
+    // promoted pipelines are sourced from the cloud assembly published by the upstream branch
+    const sourceInput =
+      promoteFrom && promotionBucket
+        ? CodePipelineSource.s3(
+            promotionBucket,
+            promotedCloudAssemblyKey(componentName, promoteFrom),
+          )
+        : new CodeSource(this, props.branch.branchName, source).source;
+    // the artifact bucket the pipeline creates, referenced lazily so steps can be scoped to it
+    // before the pipeline is built
+    const artifactBucket = Bucket.fromBucketAttributes(this, 'ArtifactBucket', {
+      bucketArn: Lazy.string({
+        produce: () => this.codePipeline.pipeline.artifactBucket.bucketArn,
+      }),
+      bucketName: Lazy.string({
+        produce: () => this.codePipeline.pipeline.artifactBucket.bucketName,
+      }),
+    });
+
     let synthCodeBuildDefaults: CodeBuildOptions = merge(
       {
         buildEnvironment: {
@@ -162,42 +545,365 @@ export class ComponentPipelineStack<
       },
       codeBuildOptions,
     );
+    let assetCodeBuildDefaults = assetPublishingCodeBuildDefaults;
+
+    // CodeBuild grants the synth project read access to the referenced parameters and secrets,
+    // a promoted cloud assembly is not synthesized
+    if (synthEnv && !promoteFrom) {
+      synthCodeBuildDefaults = merge(synthCodeBuildDefaults, {
+        buildEnvironment: { environmentVariables: synthEnv },
+      });
+    }
+
+    // grant the projects that install packages access to the CodeArtifact repository, the asset
+    // projects are logged in for Docker builds
+    if (codeArtifact) {
+      const statements = codeArtifactReadStatements(codeArtifact);
+      const loginSpec = BuildSpec.fromObject({
+        env: { variables: { DOCKER_BUILDKIT: '1' } },
+        phases: { install: { commands: codeArtifactLoginCommands(codeArtifact) } },
+      });
+      synthCodeBuildDefaults = {
+        ...synthCodeBuildDefaults,
+        rolePolicy: [...(synthCodeBuildDefaults.rolePolicy ?? []), ...statements],
+      };
+      assetCodeBuildDefaults = {
+        ...assetCodeBuildDefaults,
+        rolePolicy: [...(assetCodeBuildDefaults?.rolePolicy ?? []), ...statements],
+        partialBuildSpec: assetCodeBuildDefaults?.partialBuildSpec
+          ? mergeBuildSpecs(assetCodeBuildDefaults.partialBuildSpec, loginSpec)
+          : loginSpec,
+      };
+    }
+
+    // restore the dependencies of the previous builds with the same lock file
+    if (cacheConfig) {
+      const {
+        type = PipelineCacheType.S3,
+        bucket = artifactBucket,
+        prefix = 'cache',
+      } = cacheConfig;
+      const cache = (name: string, ...localModes: LocalCacheMode[]) =>
+        type === PipelineCacheType.LOCAL
+          ? Cache.local(...localModes)
+          : Cache.bucket(bucket, { prefix: `${prefix}/${pipelineName}/${name}` });
+      const withCacheSpec = (options: CodeBuildOptions | undefined, cacheSpec: object) => {
+        const spec = BuildSpec.fromObject({ cache: cacheSpec });
+        return options?.partialBuildSpec ? mergeBuildSpecs(options.partialBuildSpec, spec) : spec;
+      };
+
+      if (!promoteFrom) {
+        synthCodeBuildDefaults = {
+          ...synthCodeBuildDefaults,
+          cache: cache('synth', LocalCacheMode.CUSTOM, LocalCacheMode.DOCKER_LAYER),
+          partialBuildSpec: withCacheSpec(synthCodeBuildDefaults, defineCacheSpec(baseDir)),
+        };
+      }
+      // the asset projects install cdk-assets with npm
+      assetCodeBuildDefaults = {
+        ...assetCodeBuildDefaults,
+        cache: cache('assets', LocalCacheMode.CUSTOM, LocalCacheMode.DOCKER_LAYER),
+        partialBuildSpec: withCacheSpec(assetCodeBuildDefaults, {
+          key: 'cdk-assets',
+          paths: ['/root/.npm/**/*'],
+        }),
+      };
+    }
+    // build once, a promoted cloud assembly is deployed as is
+    const synth =
+      promoteFrom && promotionBucket
+        ? new PromotedSynthStep({
+            input: sourceInput,
+            promotionBucket,
+            componentName,
+            promoteFrom,
+            branchName,
+          })
+        : new ShellStep('Synth', {
+            input: sourceInput,
+            commands: defineSynthCommands(
+              baseDir,
+              synthOuputDir,
+              undefined,
+              true,
+              codeArtifact,
+              frozenLockfile,
+              props.synthArgs,
+            ),
+            primaryOutputDirectory: `${baseDir}/${synthOuputDir}`,
+          });
+
+    // optional test step that has to succeed before synth, promoted cloud assemblies were tested
+    // by the upstream pipeline. The tests run like synth, with the same dependency cache
+    if (testStepConfig && !promoteFrom) {
+      synth.addStepDependency(
+        new TestStep(this, {
+          ...testStepConfig,
+          input: sourceInput,
+          baseDir,
+          codeArtifact,
+          frozenLockfile,
+          codeBuildDefaults: synthCodeBuildDefaults,
+        }),
+      );
+    }
+
     this.codePipeline = new CodePipeline(this, pipelineId, {
       pipelineName,
       dockerEnabledForSynth: true,
       synthCodeBuildDefaults,
-      synth: new ShellStep('Synth', {
-        input: new CodeSource(this, props.branch.branchName, source).source,
-        commands: defineSynthCommands(baseDir, synthOuputDir),
-        primaryOutputDirectory: `${baseDir}/${synthOuputDir}`,
-      }),
-      assetPublishingCodeBuildDefaults,
+      synth,
+      assetPublishingCodeBuildDefaults: assetCodeBuildDefaults,
     });
 
-    // Add defined stages
-    props.branch.stages.forEach(stage => {
-      const pre: AddStageOpts['pre'] = [];
+    // steps that verify a stage once deployed, before the next stage is promoted
+    const postDeploymentSteps = (deployedStage: Stage, stage: StageConfig<TConfig>) => [
+      ...(stage.postDeploymentSteps ?? []),
+      ...(stage.smokeTests ?? []).map(test => new SmokeTestStep(deployedStage, test, sourceInput)),
+    ];
 
+    // strips the cloud assembly in place, in the artifact bucket, before it is deployed
+    const trimCloudAssemblyStep = () =>
+      new TrimCloudAssemblyStep({
+        artifactBucket,
+        input: this.codePipeline.cloudAssemblyFileSet,
+        pipelineName,
+        stripPatterns: pruneCloudAssemblyPatterns,
+      });
+
+    // the cloud assembly is uploaded as a promotion candidate before it is trimmed, then promoted
+    // once every stage has been deployed
+    const sourceVersion = { [SourceType.S3]: 'VersionId', [SourceType.ECR]: 'ImageDigest' };
+    const promotionProps =
+      publishPromotions && promotionBucket
+        ? {
+            promotionBucket,
+            componentName,
+            branchName,
+            commitId: sourceInput.sourceAttribute(
+              promoteFrom
+                ? 'VersionId'
+                : sourceVersion[sourceTypeOf(source) as keyof typeof sourceVersion] ?? 'CommitId',
+            ),
+          }
+        : undefined;
+    let candidateStep: Step | undefined = promotionProps
+      ? new CloudAssemblyCandidateStep({
+          ...promotionProps,
+          input: this.codePipeline.cloudAssemblyFileSet,
+        })
+      : undefined;
+    const preDeploymentSteps = () => {
+      const steps: Step[] = candidateStep ? [candidateStep] : [];
       // optional pruning step before CFN deploy to get around 256mb input artifact limit
-      if (pruneCloudAssembly) pre.push(new TrimCloudAssemblyStep(id, pipelineName));
+      if (pruneCloudAssembly) {
+        const trim = trimCloudAssemblyStep();
+        if (candidateStep) trim.addStepDependency(candidateStep);
+        steps.push(trim);
+      }
+      candidateStep = undefined;
+      return steps;
+    };
+    let lastDeployment: StageDeployment | Wave | undefined;
+
+    // approval steps before a stage is deployed, the risk check approves on behalf of a reviewer
+    // when the changes of the stage are safe
+    const approvalSteps = (
+      deployedStage: Stage,
+      stage: StageConfig<TConfig>,
+      pipelineStageName: string,
+      actionPrefix: string = '',
+    ): Step[] => {
+      if (stage.riskAwareApproval) {
+        return new ChangeRiskApprovalStep(this, {
+          ...stage.riskAwareApproval,
+          input: this.codePipeline.cloudAssemblyFileSet,
+          stage: deployedStage,
+          pipelineName,
+          pipelineStageName,
+          approvalActionName: `${actionPrefix}ApproveChanges`,
+        }).steps;
+      }
+      return stage.manualApproval ? [new ManualApprovalStep(`Promote To ${stage.name}`)] : [];
+    };
+
+    // wait for the deployment window once the stage has been approved
+    const addDeploymentWindow = (deployment: StageDeployment, stage: StageConfig<TConfig>) => {
+      if (!stage.deploymentWindows) return;
+      const windowStep = new DeploymentWindowStep(stage.name, stage.deploymentWindows);
+      deployment.pre.forEach(step => windowStep.addStepDependency(step));
+      deployment.addPre(windowStep);
+    };
+
+    // keep the templates deployed before the stage and watch its alarms once deployed
+    const addBakeTime = (deployment: StageDeployment, stage: StageConfig<TConfig>) => {
+      if (!stage.bakeTime) return;
+      const bakeTimeProps = {
+        stacks: deployment.stacks,
+        artifactBucket,
+        pipelineName,
+        stageName: stage.name,
+      };
+      const captureStep = new CaptureStackTemplatesStep(bakeTimeProps);
+      deployment.pre.forEach(step => captureStep.addStepDependency(step));
+      deployment.addPre(captureStep);
+
+      const bakeStep = new BakeTimeStep({ ...bakeTimeProps, ...stage.bakeTime });
+      deployment.post.forEach(step => bakeStep.addStepDependency(step));
+      deployment.addPost(bakeStep);
+    };
+
+    // tear the stage down once it has not been deployed for its time to live
+    const addTtl = (deployment: StageDeployment, stage: StageConfig<TConfig>) => {
+      const stageTtl = stage.ttl ?? ttl;
+      if (!stageTtl) return;
+      const { recordDeployment } = new StageTtl(this, `${stage.name}Ttl`, {
+        ...stageTtl,
+        stageName: stage.name,
+        stacks: deployment.stacks,
+      });
+      deployment.addPost(recordDeployment);
+    };
+
+    // the stages are configured by the layers of the component, branch and stage config
+    const componentStage = (stage: StageConfig<TConfig>) => {
+      const stageProps: ConfiguredStageProps<TConfig> = {
+        stageName: stage.name,
+        ...stage,
+        config: mergeConfigLayers<TConfig>(baseConfig, branchConfig, stage.config),
+      };
+      const deployedStage = new componentType(this, stage.name, stageProps);
+      // tags do not cross stage boundaries, the stages are tagged apart from the pipeline
+      addTags(deployedStage, { ...componentTags, ...stage.tags });
+      addTags(deployedStage, {
+        [BranchPipelinesTag.COMPONENT]: componentName,
+        [BranchPipelinesTag.STAGE]: stage.name,
+        [BranchPipelinesTag.BRANCH]: branchName,
+      });
+      // set by CodeBuild when the pipeline synthesizes the stages, only the stacks are tagged
+      const commit = process.env.CODEBUILD_RESOLVED_SOURCE_VERSION;
+      if (tagCommit && commit) {
+        deployedStage.node
+          .findAll()
+          .filter(Stack.isStack)
+          .forEach(stack => stack.tags.setTag(BranchPipelinesTag.COMMIT, commit));
+      }
+      return deployedStage;
+    };
+
+    // the commit is left out, it would update the pipeline on every commit
+    addTags(this, componentTags ?? {});
+    addTags(this, {
+      [BranchPipelinesTag.COMPONENT]: componentName,
+      [BranchPipelinesTag.BRANCH]: branchName,
+    });
+
+    // Add defined stages
+    stages.forEach(stage => {
+      const pre: AddStageOpts['pre'] = preDeploymentSteps();
+
+      const deployedStage = componentStage(stage);
 
       // add manual approval step if applicable
-      if (stage.manualApproval) pre.push(new ManualApprovalStep(`Promote To ${stage.name}`));
+      pre.push(...approvalSteps(deployedStage, stage, stage.name));
 
-      this.codePipeline.addStage(
-        new componentType(this, stage.name, { stageName: stage.name, ...stage }),
-        {
-          pre,
-        },
-      );
+      const deployment = this.codePipeline.addStage(deployedStage, {
+        pre,
+        post: postDeploymentSteps(deployedStage, stage),
+      });
+      addDeploymentWindow(deployment, stage);
+      addBakeTime(deployment, stage);
+      addTtl(deployment, stage);
+      lastDeployment = deployment;
+    });
+
+    // Add defined waves, the stages within a wave are deployed in parallel
+    waves.forEach(wave => {
+      // prune once for the whole wave rather than from each of the parallel stages
+      const pre: WaveOptions['pre'] = preDeploymentSteps();
+
+      // add manual approval step for the wave if applicable
+      if (wave.manualApproval) pre.push(new ManualApprovalStep(`Promote To ${wave.name}`));
+
+      const pipelineWave = this.codePipeline.addWave(wave.name, {
+        pre: [...pre, ...(wave.pre ?? [])],
+        post: wave.post,
+      });
+      lastDeployment = pipelineWave;
+
+      wave.stages.forEach(stage => {
+        const deployedStage = componentStage(stage);
+        const deployment = pipelineWave.addStage(deployedStage, {
+          // a wave with a single stage is deployed as that stage rather than a group of stages
+          pre:
+            wave.stages.length === 1
+              ? approvalSteps(deployedStage, stage, stage.name)
+              : approvalSteps(deployedStage, stage, wave.name, `${stage.name}.`),
+          post: postDeploymentSteps(deployedStage, stage),
+        });
+        addDeploymentWindow(deployment, stage);
+        addBakeTime(deployment, stage);
+        addTtl(deployment, stage);
+      });
     });
 
+    // promote only once the post deployment steps of the last stage or wave have succeeded
+    if (promotionProps && lastDeployment) {
+      const promoteStep = new PromoteCloudAssemblyStep(promotionProps);
+      lastDeployment.post.forEach(step => promoteStep.addStepDependency(step));
+      lastDeployment.addPost(promoteStep);
+    }
+
     this.codePipeline.buildPipeline();
 
+    // only trigger the pipeline for commits that change the component, through V2 pipeline triggers
+    if (sourcePathFilters.length > 0 && !promoteFrom) {
+      const sourceType = sourceTypeOf(source);
+      if (
+        sourceType === SourceType.GITHUB ||
+        sourceType === SourceType.BITBUCKET ||
+        sourceType === SourceType.GITLAB
+      ) {
+        const sourceAction = this.codePipeline.pipeline.stages[0].actions[0];
+        const cfnPipeline = this.codePipeline.pipeline.node.defaultChild as CfnPipeline;
+        cfnPipeline.addPropertyOverride('PipelineType', 'V2');
+        cfnPipeline.addPropertyOverride('Triggers', [
+          {
+            ProviderType: 'CodeStarSourceConnection',
+            GitConfiguration: {
+              SourceActionName: sourceAction.actionProperties.actionName,
+              Push: [
+                {
+                  Branches: { Includes: [branchName] },
+                  FilePaths: { Includes: sourcePathFilters },
+                },
+              ],
+            },
+          },
+        ]);
+      } else {
+        Annotations.of(this).addWarning(
+          `${sourceType} sources do not support sourcePathFilters, every commit to ${branchName} triggers the ${pipelineName} pipeline`,
+        );
+      }
+    }
+
     // TODO: move to an aspect?
-    if (notificationTopicArn && notificationTopicArn !== '') {
+    if ((notificationTopicArn && notificationTopicArn !== '') || notifications) {
       new PipelineEventNotificationRule(this.codePipeline, {
-        notificationTopicArn,
+        ...notifications,
+        notificationTopicArn: notificationTopicArn || undefined,
+      });
+    }
+
+    if (dashboard) {
+      this.pipelineMetrics = new PipelineMetrics(this, 'PipelineMetrics', {
+        pipeline: this.codePipeline.pipeline,
+        componentName,
+      });
+      new PipelineDashboard(this, 'PipelineDashboard', {
+        metrics: this.pipelineMetrics,
+        dashboardName: `${pipelineName.replace(/[^\w-]/g, '-')}-pipeline`,
       });
     }
   }
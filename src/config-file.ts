@@ -0,0 +1,352 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { StackProps, StageProps } from 'aws-cdk-lib';
+import { parse } from 'yaml';
+import {
+  BranchPipelinesProps,
+  EphemeralBranchesConfig,
+  IDeploymentBranch,
+} from './branch-pipelines';
+import { RiskAwareApprovalConfig } from './change-risk-approval-step';
+import { RepositoryConfig } from './code-source';
+import { PipelineConfig, StageConfig, WaveConfig } from './component-pipeline-stack';
+import { IConfigValidator, mergeConfigLayers } from './configured-stage';
+import { DeploymentWindowsConfig } from './deployment-window-step';
+import { PullRequestValidationConfig } from './pull-request-validation-stack';
+import { SmokeTestConfig } from './smoke-test-step';
+
+/**
+ * Defaults shared by the stages of the deployment branches in a config file. The `config` of the
+ * defaults is deep merged with the config of each stage.
+ *
+ * @export
+ * @interface StageDefaults
+ * @typedef {StageDefaults}
+ * @extends {StageProps}
+ */
+export interface StageDefaults extends StageProps {
+  /**
+   * Add a manual approval step when deploying the stages.
+   *
+   * @readonly
+   * @type {?boolean}
+   */
+  readonly manualApproval?: boolean;
+  /**
+   * Only pause for manual approval when risky changes are detected.
+   *
+   * @readonly
+   * @type {?RiskAwareApprovalConfig}
+   */
+  readonly riskAwareApproval?: RiskAwareApprovalConfig;
+  /**
+   * Smoke tests to run after each stage has been deployed.
+   *
+   * @readonly
+   * @type {?SmokeTestConfig[]}
+   */
+  readonly smokeTests?: SmokeTestConfig[];
+  /**
+   * Only deploy the stages inside deployment windows and outside of freeze periods.
+   *
+   * @readonly
+   * @type {?DeploymentWindowsConfig}
+   */
+  readonly deploymentWindows?: DeploymentWindowsConfig;
+  /**
+   * Tags added to every stack of the stages.
+   *
+   * @readonly
+   * @type {?Record<string, string>}
+   */
+  readonly tags?: Record<string, string>;
+  /**
+   * The generic config of the stages, the `config` of each stage is deep merged over it.
+   *
+   * @readonly
+   * @type {?Record<string, any>}
+   */
+  readonly config?: Record<string, any>;
+}
+
+/**
+ * A deployment branch in a config file.
+ *
+ * @export
+ * @interface IDeploymentBranchDefinition
+ * @typedef {IDeploymentBranchDefinition}
+ * @template TConfig
+ * @extends {IDeploymentBranch<TConfig>}
+ */
+export interface IDeploymentBranchDefinition<TConfig> extends IDeploymentBranch<TConfig> {
+  /**
+   * Overrides of the shared `stageDefaults` for the stages of this branch.
+   *
+   * @readonly
+   * @type {?StageDefaults}
+   */
+  readonly stageDefaults?: StageDefaults;
+}
+
+/**
+ * Options of `BranchPipelines.fromConfigFile` that cannot be expressed in the config file, ex.
+ * durations or steps.
+ *
+ * @export
+ * @interface BranchPipelinesConfigFileOverrides
+ * @typedef {BranchPipelinesConfigFileOverrides}
+ * @template TConfig
+ * @extends {StackProps}
+ */
+export interface BranchPipelinesConfigFileOverrides<TConfig> extends StackProps {
+  /**
+   * Configuration for the pipelines, merged over the `pipelineConfig` of the file.
+   *
+   * @readonly
+   * @type {?PipelineConfig}
+   */
+  readonly pipelineConfig?: PipelineConfig;
+  /**
+   * Create pipelines on demand for short-lived branches matching a pattern.
+   *
+   * @readonly
+   * @type {?EphemeralBranchesConfig<TConfig>}
+   */
+  readonly ephemeralBranches?: EphemeralBranchesConfig<TConfig>;
+  /**
+   * Validate the config of every stage at synth time.
+   *
+   * @readonly
+   * @type {?IConfigValidator}
+   */
+  readonly validateConfig?: IConfigValidator;
+  /**
+   * Validate pull requests before they are merged.
+   *
+   * @readonly
+   * @type {?PullRequestValidationConfig}
+   */
+  readonly pullRequestValidation?: PullRequestValidationConfig;
+}
+
+/**
+ * The contents of a BranchPipelines config file, in YAML or JSON. String values can reference
+ * environment variables as `${NAME}`, or `${NAME:-default}` to fall back to a default.
+ *
+ * @export
+ * @interface BranchPipelinesConfigFile
+ * @typedef {BranchPipelinesConfigFile}
+ * @template TConfig
+ */
+export interface BranchPipelinesConfigFile<TConfig> {
+  /**
+   * Configuration for the source code repository.
+   *
+   * @readonly
+   * @type {RepositoryConfig}
+   */
+  readonly repository: RepositoryConfig;
+  /**
+   * Configuration for the pipelines.
+   *
+   * @readonly
+   * @type {?PipelineConfig}
+   */
+  readonly pipelineConfig?: PipelineConfig;
+  /**
+   * Defaults shared by the stages of every deployment branch.
+   *
+   * @readonly
+   * @type {?StageDefaults}
+   */
+  readonly stageDefaults?: StageDefaults;
+  /**
+   * The deployment branches.
+   *
+   * @readonly
+   * @type {IDeploymentBranchDefinition<TConfig>[]}
+   */
+  readonly deploymentBranches: IDeploymentBranchDefinition<TConfig>[];
+}
+
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Replace the environment variable references in the string values of a parsed config file.
+ *
+ * @param {unknown} value
+ * @param {NodeJS.ProcessEnv} env
+ * @param {string[]} errors - Collects the references to undefined variables.
+ * @param {string} path - The path of the value in the file.
+ * @returns {unknown}
+ */
+function resolveEnvReferences(
+  value: unknown,
+  env: NodeJS.ProcessEnv,
+  errors: string[],
+  path: string,
+): unknown {
+  if (typeof value === 'string') {
+    return value.replace(ENV_REFERENCE, (reference, name: string, fallback?: string) => {
+      const resolved = env[name] ?? fallback;
+      if (resolved === undefined) {
+        errors.push(`${path}: environment variable ${name} is not set`);
+        return reference;
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => resolveEnvReferences(item, env, errors, `${path}[${index}]`));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        resolveEnvReferences(item, env, errors, path ? `${path}.${key}` : key),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Test whether a parsed value is a mapping.
+ *
+ * @param {unknown} value
+ * @returns {boolean}
+ */
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that the stages of a branch or wave are named and configured.
+ *
+ * @param {unknown} stages
+ * @param {string} path
+ * @param {string[]} errors
+ */
+function validateStages(stages: unknown, path: string, errors: string[]): void {
+  if (stages === undefined) return;
+  if (!Array.isArray(stages)) {
+    errors.push(`${path} must be a list`);
+    return;
+  }
+  stages.forEach((stage: unknown, index) => {
+    if (!isMapping(stage) || typeof stage.name !== 'string') {
+      errors.push(`${path}[${index}].name must be a string`);
+    }
+  });
+}
+
+/**
+ * Check that the waves of a branch are named and list their stages.
+ *
+ * @param {unknown} waves
+ * @param {string} path
+ * @param {string[]} errors
+ */
+function validateWaves(waves: unknown, path: string, errors: string[]): void {
+  if (waves === undefined) return;
+  if (!Array.isArray(waves)) {
+    errors.push(`${path} must be a list`);
+    return;
+  }
+  waves.forEach((wave: unknown, index) => {
+    const wavePath = `${path}[${index}]`;
+    if (!isMapping(wave) || typeof wave.name !== 'string') {
+      errors.push(`${wavePath}.name must be a string`);
+    }
+    const stages = isMapping(wave) ? wave.stages : undefined;
+    if (!Array.isArray(stages)) errors.push(`${wavePath}.stages must be a list`);
+    else validateStages(stages, `${wavePath}.stages`, errors);
+  });
+}
+
+/**
+ * Check the structure of a parsed config file.
+ *
+ * @param {unknown} file
+ * @returns {string[]} The errors found.
+ */
+function validateConfigFile(file: unknown): string[] {
+  if (!isMapping(file)) return ['must be a mapping'];
+
+  const errors: string[] = [];
+  if (!isMapping(file.repository) || !isMapping(file.repository.source)) {
+    errors.push('repository.source must be specified');
+  }
+  const branches = file.deploymentBranches;
+  if (!Array.isArray(branches) || branches.length === 0) {
+    errors.push('deploymentBranches must list at least one branch');
+    return errors;
+  }
+  branches.forEach((branch: unknown, index) => {
+    const path = `deploymentBranches[${index}]`;
+    if (!isMapping(branch)) {
+      errors.push(`${path}.branchName must be a string`);
+      return;
+    }
+    if (typeof branch.branchName !== 'string') errors.push(`${path}.branchName must be a string`);
+    validateStages(branch.stages, `${path}.stages`, errors);
+    validateWaves(branch.waves, `${path}.waves`, errors);
+  });
+  return errors;
+}
+
+/**
+ * Read the BranchPipelines props from a YAML or JSON config file. Environment variable
+ * references are resolved and the stage defaults are merged into the stages, the defaults of a
+ * branch override the shared defaults.
+ *
+ * @export
+ * @template TConfig
+ * @param {string} path - Path of the config file, files with a `.json` extension are parsed as JSON, others as YAML.
+ * @param {NodeJS.ProcessEnv} [env=process.env] - The environment variables to resolve references from.
+ * @returns {Omit<BranchPipelinesProps<TConfig>, 'component' | 'components'>}
+ */
+export function loadBranchPipelinesConfig<TConfig>(
+  path: string,
+  env: NodeJS.ProcessEnv = process.env,
+): Omit<BranchPipelinesProps<TConfig>, 'component' | 'components'> {
+  const contents = readFileSync(path, 'utf-8');
+  let parsed: unknown;
+  try {
+    parsed = extname(path).toLowerCase() === '.json' ? JSON.parse(contents) : parse(contents);
+  } catch (e) {
+    throw new Error(`Improper configuration: cannot parse ${path}: ${(e as Error).message}`);
+  }
+
+  const errors = validateConfigFile(parsed);
+  const file = resolveEnvReferences(parsed, env, errors, '') as BranchPipelinesConfigFile<TConfig>;
+  if (errors.length > 0) {
+    throw new Error(
+      `Improper configuration: invalid config file ${path}\n${errors
+        .map(error => `  - ${error}`)
+        .join('\n')}`,
+    );
+  }
+
+  const { repository, pipelineConfig = {}, stageDefaults = {} } = file;
+  const deploymentBranches = file.deploymentBranches.map(
+    ({ stageDefaults: branchDefaults = {}, ...branch }) => {
+      const defaults = mergeConfigLayers<StageDefaults>(
+        { config: {} },
+        stageDefaults,
+        branchDefaults,
+      );
+      const withDefaults = (stages: StageConfig<TConfig>[] = []): StageConfig<TConfig>[] =>
+        stages.map(stage => mergeConfigLayers<StageConfig<TConfig>>(defaults, stage));
+      return {
+        ...branch,
+        stages: withDefaults(branch.stages),
+        waves: branch.waves?.map(
+          (wave): WaveConfig<TConfig> => ({ ...wave, stages: withDefaults(wave.stages) }),
+        ),
+      };
+    },
+  );
+
+  return { repository, pipelineConfig, deploymentBranches };
+}
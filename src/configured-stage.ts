@@ -1,8 +1,43 @@
 import { Stage, StageProps } from 'aws-cdk-lib';
 import { Construct, IConstruct } from 'constructs';
+import { get, isPlainObject, mergeWith } from 'lodash';
 
 const CONFIGURED_STAGE_SYMBOL = Symbol.for('@kikoda/cdk-constructs.ConifiguredStage');
 
+/**
+ * Deep merge the layers of a configuration in order, ex. a component-wide base, branch overrides
+ * and stage overrides. Objects are merged, other values, including lists, are replaced by the
+ * later layers.
+ *
+ * @export
+ * @template T
+ * @param {...(Record<string, any> | T | undefined)[]} layers
+ * @returns {T}
+ */
+export function mergeConfigLayers<T>(...layers: (Record<string, any> | T | undefined)[]): T {
+  return mergeWith({}, ...layers, (_target: unknown, source: unknown) =>
+    isPlainObject(source) ? undefined : source,
+  );
+}
+
+/**
+ * Validates the configuration of a stage, ex. against a JSON Schema. No schema library is bundled,
+ * implement it with the validator of your choice, ex. Ajv.
+ *
+ * @export
+ * @interface IConfigValidator
+ * @typedef {IConfigValidator}
+ */
+export interface IConfigValidator {
+  /**
+   * Validate a configuration.
+   *
+   * @param {*} config - The configuration of a stage.
+   * @returns {string[]} A message for each error found.
+   */
+  validate(config: any): string[];
+}
+
 /**
  * Configured Stage Properties.
  * @author Kikoda
@@ -15,6 +50,13 @@ const CONFIGURED_STAGE_SYMBOL = Symbol.for('@kikoda/cdk-constructs.ConifiguredSt
  */
 export interface ConfiguredStageProps<T> extends StageProps {
   readonly config: T;
+  /**
+   * Validate the config when the stage is created.
+   *
+   * @readonly
+   * @type {?IConfigValidator}
+   */
+  readonly validateConfig?: IConfigValidator;
 }
 
 /**
@@ -38,6 +80,23 @@ export class ConfiguredStage<TConfig> extends Stage {
     return construct.node.scopes.reverse().slice(1).find(ConfiguredStage.isConfiguredStage);
   }
 
+  /**
+   * Return the `ConfiguredStage` this construct is contained within, like `extOf`, for constructs
+   * that require their configuration. Not named `of` as it cannot override the return type of
+   * Stage.of().
+   *
+   * @throws when the construct is not within a ConfiguredStage.
+   */
+  public static requireOf<K>(construct: IConstruct): ConfiguredStage<K> {
+    const stage = ConfiguredStage.extOf<K>(construct);
+    if (!stage) {
+      throw new Error(
+        `Improper configuration: ${construct.node.path} must be created within a ConfiguredStage`,
+      );
+    }
+    return stage;
+  }
+
   /**
    * Test whether the given construct is a ConfiguredStage.
    *
@@ -64,7 +123,33 @@ export class ConfiguredStage<TConfig> extends Stage {
    */
   constructor(scope: Construct, id: string, props: ConfiguredStageProps<TConfig>) {
     super(scope, id, props);
+    const errors = props.validateConfig?.validate(props.config) ?? [];
+    if (errors.length > 0) {
+      throw new Error(
+        `Improper configuration: the config of stage '${id}' is invalid:\n${errors
+          .map(error => `  - ${error}`)
+          .join('\n')}`,
+      );
+    }
     Object.defineProperty(this, CONFIGURED_STAGE_SYMBOL, { value: true });
     this.config = props.config;
   }
+
+  /**
+   * Get a value of the configuration by its path, ex. `get('database.instanceType')`.
+   *
+   * @template V
+   * @param {string} path - The dot separated path of the key.
+   * @returns {V}
+   * @throws when the key is not configured.
+   */
+  public get<V = unknown>(path: string): V {
+    const value: V | undefined = get(this.config, path);
+    if (value === undefined) {
+      throw new Error(
+        `Improper configuration: the config of stage '${this.stageName}' is missing the required key '${path}'`,
+      );
+    }
+    return value;
+  }
 }
@@ -0,0 +1,267 @@
+import { Duration } from 'aws-cdk-lib';
+import { CodeBuildStep } from 'aws-cdk-lib/pipelines';
+
+/**
+ * A window in which a stage may be deployed.
+ *
+ * @export
+ * @interface DeploymentWindow
+ * @typedef {DeploymentWindow}
+ */
+export interface DeploymentWindow {
+  /**
+   * The days of the week, in the cron day-of-week syntax, ex. `MON-FRI` or `MON,WED,FRI`. Ranges
+   * wrap around the end of the week, ex. `FRI-MON`.
+   *
+   * @readonly
+   * @type {?string}
+   * @default '*'
+   */
+  readonly weekDays?: string;
+  /**
+   * The hours of the day, in the cron hour syntax, ex. `9-16` for 09:00 until 17:00. Ranges wrap
+   * around midnight, ex. `22-5` for 22:00 until 06:00.
+   *
+   * @readonly
+   * @type {?string}
+   * @default '*'
+   */
+  readonly hours?: string;
+  /**
+   * The IANA time zone of the window, ex. `Europe/Amsterdam`.
+   *
+   * @readonly
+   * @type {?string}
+   * @default 'UTC'
+   */
+  readonly timeZone?: string;
+}
+
+/**
+ * A period in which a stage may not be deployed.
+ *
+ * @export
+ * @interface FreezePeriod
+ * @typedef {FreezePeriod}
+ */
+export interface FreezePeriod {
+  /**
+   * The start of the freeze, an ISO 8601 date or date and time, ex. `2024-12-20` or
+   * `2024-12-20T17:00:00+01:00`. Dates without a time zone offset are in UTC.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly start: string;
+  /**
+   * The end of the freeze, exclusive, an ISO 8601 date or date and time.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly end: string;
+  /**
+   * Why deployments are frozen, shown in the build log.
+   *
+   * @readonly
+   * @type {?string}
+   */
+  readonly reason?: string;
+}
+
+/**
+ * What to do when a stage is about to be deployed outside of its deployment windows.
+ *
+ * @export
+ * @enum {string}
+ */
+export enum DeploymentWindowBehavior {
+  /**
+   * Wait for the next deployment window, for at most `maxWait`.
+   */
+  WAIT = 'wait',
+  /**
+   * Fail the pipeline.
+   */
+  FAIL = 'fail',
+}
+
+/**
+ * Configuration for the deployment windows of a stage.
+ *
+ * @export
+ * @interface DeploymentWindowsConfig
+ * @typedef {DeploymentWindowsConfig}
+ */
+export interface DeploymentWindowsConfig {
+  /**
+   * The windows in which the stage may be deployed.
+   *
+   * @readonly
+   * @type {?DeploymentWindow[]}
+   * @default - the stage may be deployed at any time outside of the freeze periods
+   */
+  readonly windows?: DeploymentWindow[];
+  /**
+   * The periods in which the stage may not be deployed, even inside a window.
+   *
+   * @readonly
+   * @type {?FreezePeriod[]}
+   */
+  readonly freezePeriods?: FreezePeriod[];
+  /**
+   * What to do outside of the windows or during a freeze period.
+   *
+   * @readonly
+   * @type {?DeploymentWindowBehavior}
+   * @default DeploymentWindowBehavior.WAIT
+   */
+  readonly behavior?: DeploymentWindowBehavior;
+  /**
+   * How long to wait for a deployment window before failing, at most 7 hours. The CodeBuild
+   * project is billed while it waits.
+   *
+   * @readonly
+   * @type {?Duration}
+   * @default Duration.hours(7)
+   */
+  readonly maxWait?: Duration;
+}
+
+// checks the DEPLOYMENT_WINDOWS every minute until the stage may be deployed or the wait is over
+const CHECK_SCRIPT = `
+const { windows, freezePeriods, wait, maxWaitSeconds } = JSON.parse(process.env.DEPLOYMENT_WINDOWS);
+const DAYS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const value = (v, names = []) => (names.includes(v.toUpperCase()) ? names.indexOf(v.toUpperCase()) : Number(v));
+const matches = (field, actual, names) =>
+  field.split(',').some(part => {
+    if (part === '*') return true;
+    const [from, to = from] = part.split('-').map(v => value(v, names));
+    // ranges such as FRI-MON or 22-2 wrap around the end of the week or day
+    return from <= to ? actual >= from && actual <= to : actual >= from || actual <= to;
+  });
+
+const inWindow = (window, now) => {
+  const format = new Intl.DateTimeFormat('en-US', { timeZone: window.timeZone || 'UTC', weekday: 'short', hour: 'numeric', hourCycle: 'h23' });
+  const parts = Object.fromEntries(format.formatToParts(now).map(part => [part.type, part.value]));
+  const day = DAYS.indexOf(parts.weekday.toUpperCase());
+  const weekDays = window.weekDays || '*';
+  return (matches(weekDays, day, DAYS) || (day === 0 && matches(weekDays, 7, DAYS))) && matches(window.hours || '*', Number(parts.hour) % 24);
+};
+
+const check = now => {
+  const freeze = freezePeriods.find(period => now >= new Date(period.start) && now < new Date(period.end));
+  if (freeze) return 'in the freeze period from ' + freeze.start + ' until ' + freeze.end + (freeze.reason ? ': ' + freeze.reason : '');
+  if (windows.length > 0 && !windows.some(window => inWindow(window, now))) return 'outside of the deployment windows';
+};
+
+const deadline = Date.now() + maxWaitSeconds * 1000;
+const poll = () => {
+  const reason = check(new Date());
+  if (!reason) return console.log('The stage may be deployed');
+  if (!wait || Date.now() >= deadline) {
+    console.error('The stage may not be deployed, it is ' + reason);
+    process.exit(1);
+  }
+  console.log('Waiting, the stage is ' + reason);
+  setTimeout(poll, 60000);
+};
+poll();
+`;
+
+const WEEK_DAY = '(SUN|MON|TUE|WED|THU|FRI|SAT|[0-7])';
+const HOUR = '([01]?[0-9]|2[0-3])';
+
+/**
+ * Whether a cron field is a list of values or ranges, or `*`.
+ *
+ * @param {string} field
+ * @param {string} value - Pattern of a single value.
+ * @returns {boolean}
+ */
+function isCronField(field: string, value: string): boolean {
+  const range = `${value}(-${value})?`;
+  return new RegExp(`^(\\*|${range}(,${range})*)$`, 'i').test(field);
+}
+
+/**
+ * Validate the deployment windows configuration of a stage.
+ *
+ * @param {string} stageName
+ * @param {DeploymentWindowsConfig} config
+ */
+function validateDeploymentWindows(stageName: string, config: DeploymentWindowsConfig): void {
+  const { windows = [], freezePeriods = [], maxWait } = config;
+  const invalid = (message: string) =>
+    new Error(`Improper configuration: the deployment windows of ${stageName} ${message}`);
+
+  windows.forEach(({ weekDays = '*', hours = '*', timeZone = 'UTC' }) => {
+    if (!isCronField(weekDays, WEEK_DAY)) throw invalid(`have invalid weekDays '${weekDays}'`);
+    if (!isCronField(hours, HOUR)) throw invalid(`have invalid hours '${hours}'`);
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+    } catch (e) {
+      throw invalid(`have an unknown time zone '${timeZone}'`);
+    }
+  });
+  freezePeriods.forEach(({ start, end }) => {
+    if (
+      isNaN(Date.parse(start)) ||
+      isNaN(Date.parse(end)) ||
+      Date.parse(end) <= Date.parse(start)
+    ) {
+      throw invalid(`have an invalid freeze period from '${start}' until '${end}'`);
+    }
+  });
+  if (maxWait && maxWait.toSeconds() > Duration.hours(7).toSeconds()) {
+    throw invalid('cannot wait longer than 7 hours');
+  }
+}
+
+/**
+ * CodeBuild step that only lets a stage be deployed inside its deployment windows and outside of
+ * its freeze periods, waiting for the next window or failing otherwise. Run it right before the
+ * stage is deployed, after any manual approval.
+ *
+ * @export
+ * @class DeploymentWindowStep
+ * @typedef {DeploymentWindowStep}
+ * @extends {CodeBuildStep}
+ */
+export class DeploymentWindowStep extends CodeBuildStep {
+  /**
+   * Creates an instance of DeploymentWindowStep.
+   *
+   * @constructor
+   * @param {string} stageName - The name of the stage.
+   * @param {DeploymentWindowsConfig} config
+   */
+  constructor(stageName: string, config: DeploymentWindowsConfig) {
+    validateDeploymentWindows(stageName, config);
+    const {
+      windows = [],
+      freezePeriods = [],
+      behavior = DeploymentWindowBehavior.WAIT,
+      maxWait = Duration.hours(7),
+    } = config;
+
+    super('DeploymentWindow', {
+      commands: [
+        `echo ${Buffer.from(CHECK_SCRIPT).toString(
+          'base64',
+        )} | base64 -d > /tmp/deployment-window.js`,
+        'node /tmp/deployment-window.js',
+      ],
+      env: {
+        DEPLOYMENT_WINDOWS: JSON.stringify({
+          windows,
+          freezePeriods,
+          wait: behavior === DeploymentWindowBehavior.WAIT,
+          maxWaitSeconds: maxWait.toSeconds(),
+        }),
+      },
+      timeout: maxWait.plus(Duration.minutes(10)),
+    });
+  }
+}
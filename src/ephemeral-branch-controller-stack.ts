@@ -0,0 +1,198 @@
+import { Stack, StackProps } from 'aws-cdk-lib';
+import {
+  BuildSpec,
+  ComputeType,
+  LinuxBuildImage,
+  Project,
+  Source,
+} from 'aws-cdk-lib/aws-codebuild';
+import { Repository } from 'aws-cdk-lib/aws-codecommit';
+import { EventField, Rule, RuleTargetInput } from 'aws-cdk-lib/aws-events';
+import { CodeBuildProject } from 'aws-cdk-lib/aws-events-targets';
+import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { Construct } from 'constructs';
+import { CodeCommitSourceConfig, RepositoryConfig, SourceType, sourceTypeOf } from './code-source';
+import { findLockFile, PackageManager } from './package-manager';
+import { branchSlugCommand, validateBranchPattern } from './util';
+
+/**
+ * The context key used to pass the name of an ephemeral branch to the CDK app. When set, and the
+ * branch name matches the configured `branchPattern`, `BranchPipelines` will synthesize a pipeline
+ * for that branch.
+ */
+export const EPHEMERAL_BRANCH_CONTEXT_KEY = 'branch-pipelines:ephemeralBranch';
+
+/**
+ * Properties for the EphemeralBranchControllerStack.
+ *
+ * @export
+ * @interface EphemeralBranchControllerStackProps
+ * @typedef {EphemeralBranchControllerStackProps}
+ * @extends {StackProps}
+ */
+export interface EphemeralBranchControllerStackProps extends StackProps {
+  /**
+   * The name of the component the ephemeral pipelines are created for.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly componentName: string;
+  /**
+   * Pattern of the branches that should get an ephemeral pipeline, ex. `feature/*`. The only
+   * wildcard is `*`, it matches any characters, including `/`.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly branchPattern: string;
+  /**
+   * The branch whose code is used to deploy and destroy the ephemeral pipelines.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly controllerBranch: string;
+  /**
+   * Configuration for the source code repository. Only CodeCommit repositories publish the
+   * branch events required by the controller.
+   *
+   * @readonly
+   * @type {RepositoryConfig}
+   */
+  readonly repository: RepositoryConfig;
+}
+
+/**
+ * A stack that listens for branch create/delete events of a repository and deploys or tears down
+ * the ephemeral pipeline (and its stages) for each branch matching a pattern.
+ *
+ * @export
+ * @class EphemeralBranchControllerStack
+ * @typedef {EphemeralBranchControllerStack}
+ * @extends {Stack}
+ */
+export class EphemeralBranchControllerStack extends Stack {
+  /**
+   * The CodeBuild project that runs `cdk deploy` or `cdk destroy` for the ephemeral branch.
+   *
+   * @readonly
+   * @type {Project}
+   */
+  readonly project: Project;
+
+  /**
+   * Creates an instance of EphemeralBranchControllerStack.
+   *
+   * @constructor
+   * @param {Construct} scope
+   * @param {string} id
+   * @param {EphemeralBranchControllerStackProps} props
+   */
+  constructor(scope: Construct, id: string, props: EphemeralBranchControllerStackProps) {
+    super(scope, id, props);
+
+    const { componentName, branchPattern, controllerBranch } = props;
+    const { source, baseDir = '.' } = props.repository;
+    validateBranchPattern(branchPattern);
+
+    if (sourceTypeOf(source) !== SourceType.CODECOMMIT) {
+      throw new Error(
+        'Ephemeral branch pipelines require a CodeCommit repository, other sources do not publish branch events.',
+      );
+    }
+
+    const repository = Repository.fromRepositoryArn(
+      this,
+      'Repository',
+      (source as CodeCommitSourceConfig).codeCommitArn,
+    );
+    const pkgManager = PackageManager.fromLockFile(findLockFile());
+    const pipelineStackId = `${componentName}-$BRANCH_SLUG-pipeline`;
+    const context = `-c ${EPHEMERAL_BRANCH_CONTEXT_KEY}=$BRANCH_NAME`;
+
+    this.project = new Project(this, 'Controller', {
+      source: Source.codeCommit({ repository, branchOrRef: controllerBranch }),
+      environment: {
+        buildImage: LinuxBuildImage.STANDARD_7_0,
+        computeType: ComputeType.LARGE,
+        privileged: true,
+      },
+      buildSpec: BuildSpec.fromObject({
+        version: '0.2',
+        phases: {
+          install: {
+            commands: [`cd ${baseDir}`, pkgManager.installCommand.join(' ')],
+          },
+          build: {
+            commands: [
+              `BRANCH_SLUG=${branchSlugCommand('BRANCH_NAME')}`,
+              `if [ "$ACTION" = "destroy" ]; then ${pkgManager.runScript(
+                'cdk destroy',
+                '--force',
+                context,
+                `"${pipelineStackId}/**"`,
+                pipelineStackId,
+              )}; else ${pkgManager.runScript(
+                'cdk deploy',
+                '--require-approval never',
+                context,
+                pipelineStackId,
+              )}; fi`,
+            ],
+          },
+        },
+      }),
+    });
+
+    // deploying the pipeline (and destroying its stages) is done through the bootstrap roles
+    this.project.addToRolePolicy(
+      new PolicyStatement({
+        actions: ['sts:AssumeRole'],
+        resources: ['*'],
+        conditions: {
+          StringEquals: {
+            'iam:ResourceTag/aws-cdk:bootstrap-role': [
+              'lookup',
+              'deploy',
+              'file-publishing',
+              'image-publishing',
+            ],
+          },
+        },
+      }),
+    );
+
+    const branchEvent = (event: string, action: string) =>
+      new Rule(this, `${event}Rule`, {
+        description: `Runs the ${action} of the ${componentName} pipeline for branches matching ${branchPattern}`,
+        eventPattern: {
+          source: ['aws.codecommit'],
+          detailType: ['CodeCommit Repository State Change'],
+          resources: [repository.repositoryArn],
+          detail: {
+            event: [event],
+            referenceType: ['branch'],
+            referenceName: [{ wildcard: branchPattern }],
+          },
+        },
+        targets: [
+          new CodeBuildProject(this.project, {
+            event: RuleTargetInput.fromObject({
+              environmentVariablesOverride: [
+                {
+                  name: 'BRANCH_NAME',
+                  value: EventField.fromPath('$.detail.referenceName'),
+                  type: 'PLAINTEXT',
+                },
+                { name: 'ACTION', value: action, type: 'PLAINTEXT' },
+              ],
+            }),
+          }),
+        ],
+      });
+
+    branchEvent('referenceCreated', 'deploy');
+    branchEvent('referenceDeleted', 'destroy');
+  }
+}
@@ -1,10 +1,24 @@
+export * from './bake-time';
 export * from './branch-pipelines';
+export * from './change-risk-approval-step';
+export * from './cloud-assembly-promotion';
+export * from './code-artifact';
 export * from './code-source';
 export * from './component-pipeline-stack';
+export * from './config-file';
 export * from './configured-stage';
 export * from './database-event-rule';
+export * from './deployment-window-step';
+export * from './ephemeral-branch-controller-stack';
 export * from './instance-auto-start';
 export * from './instance-auto-stop';
+export * from './pipeline-event-notification-rule';
+export * from './pipeline-metrics';
+export * from './pull-request-validation-stack';
+export * from './smoke-test-step';
+export * from './stage-config-publisher';
 export * from './stage-alarm-topic';
+export * from './stage-ttl';
+export * from './test-step';
 export * from './website';
 export * from './well-architected-aspects';
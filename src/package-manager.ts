@@ -1,7 +1,8 @@
-import { existsSync, statSync } from 'fs';
+import { existsSync, readFileSync, statSync } from 'fs';
 import { platform } from 'os';
-import { basename, resolve } from 'path';
+import { basename, dirname, join, resolve } from 'path';
 import { LogLevel } from 'aws-cdk-lib/aws-lambda-nodejs';
+import { parse } from 'yaml';
 import { findUpMultiple } from './util';
 
 /**
@@ -53,18 +54,49 @@ interface PackageManagerProps {
    * @type {?string}
    */
   readonly scriptArgFlag?: string;
+  /**
+   * Command parts to run a package binary without installing it.
+   *
+   * @readonly
+   * @type {?string[]}
+   */
+  readonly dlxCommand?: string[];
+  /**
+   * Whether this is Yarn Berry (v2+), detected by a `.yarnrc.yml` next to the lock file.
+   *
+   * @readonly
+   * @type {?boolean}
+   */
+  readonly yarnBerry?: boolean;
+  /**
+   * Whether Yarn Berry uses Plug'n'Play rather than `node_modules`, read from the `nodeLinker` of
+   * the `.yarnrc.yml` next to the lock file.
+   *
+   * @readonly
+   * @type {?boolean}
+   */
+  readonly pnp?: boolean;
+  /**
+   * Directories the package manager caches packages in, absolute or relative to the project.
+   *
+   * @readonly
+   * @type {?string[]}
+   */
+  readonly cacheDirectories?: string[];
 }
 
 export enum LockFile {
   NPM = 'package-lock.json',
   YARN = 'yarn.lock',
   PNPM = 'pnpm-lock.yaml',
+  BUN = 'bun.lockb',
 }
 
 export enum PackageManagerBinary {
   NPM = 'npm',
   YARN = 'yarn',
   PNPM = 'pnpm',
+  BUN = 'bun',
 }
 
 /**
@@ -83,11 +115,11 @@ export function findLockFile(depsLockFilePath?: string): string {
     return resolve(depsLockFilePath);
   }
 
-  const lockFiles = findUpMultiple([LockFile.PNPM, LockFile.YARN, LockFile.NPM]);
+  const lockFiles = findUpMultiple([LockFile.PNPM, LockFile.YARN, LockFile.BUN, LockFile.NPM]);
 
   if (lockFiles.length === 0) {
     throw new Error(
-      'Cannot find a package lock file (`pnpm-lock.yaml`, `yarn.lock` or `package-lock.json`). Please specify it with `depsLockFilePath`.',
+      'Cannot find a package lock file (`pnpm-lock.yaml`, `yarn.lock`, `bun.lockb` or `package-lock.json`). Please specify it with `depsLockFilePath`.',
     );
   }
   if (lockFiles.length > 1) {
@@ -101,6 +133,17 @@ export function findLockFile(depsLockFilePath?: string): string {
   return lockFiles[0];
 }
 
+/**
+ * Read the `nodeLinker` of a Yarn Berry project from its config, the `.pnp.cjs` file only exists
+ * once the dependencies are installed.
+ *
+ * @param {string} yarnrcPath - Path of the .yarnrc.yml file.
+ * @returns {string} The linker, `pnp` when not configured as it is the Yarn Berry default.
+ */
+function yarnNodeLinker(yarnrcPath: string): string {
+  return parse(readFileSync(yarnrcPath, 'utf-8'))?.nodeLinker ?? 'pnp';
+}
+
 /**
  * A node package manager
  */
@@ -110,34 +153,84 @@ export class PackageManager {
    * control its verbosity.
    * @param lockFilePath Path of the lock file
    * @param logLevel optional log level @default LogLevel.INFO
+   * @param frozen fail the install instead of updating an outdated lock file, for reproducible CI
+   * builds @default false
    * @returns the right PackageManager for that lock file
    */
-  public static fromLockFile(lockFilePath: string, logLevel?: LogLevel): PackageManager {
+  public static fromLockFile(
+    lockFilePath: string,
+    logLevel?: LogLevel,
+    frozen: boolean = false,
+  ): PackageManager {
     const lockFile = basename(lockFilePath);
+    const lockFileDir = dirname(lockFilePath);
+    const quiet = logLevel && logLevel !== LogLevel.INFO;
 
     switch (lockFile) {
       case LockFile.YARN:
+        // Yarn Berry is configured through .yarnrc.yml, classic yarn through .yarnrc
+        const yarnrcPath = join(lockFileDir, '.yarnrc.yml');
+        if (existsSync(yarnrcPath)) {
+          const pnp = yarnNodeLinker(yarnrcPath) === 'pnp';
+          return new PackageManager({
+            lockFile: LockFile.YARN,
+            installCommand: [
+              PackageManagerBinary.YARN,
+              'install',
+              frozen ? '--immutable' : '--no-immutable',
+            ],
+            runCommand: [PackageManagerBinary.YARN, 'run'],
+            scriptCommand: [PackageManagerBinary.YARN],
+            dlxCommand: [PackageManagerBinary.YARN, 'dlx'],
+            yarnBerry: true,
+            pnp,
+            cacheDirectories: pnp ? ['.yarn/cache'] : ['.yarn/cache', 'node_modules'],
+          });
+        }
         return new PackageManager({
           lockFile: LockFile.YARN,
-          installCommand:
-            logLevel && logLevel !== LogLevel.INFO
-              ? [PackageManagerBinary.YARN, 'install', '--no-immutable', '--silent']
-              : [PackageManagerBinary.YARN, 'install', '--no-immutable'],
+          installCommand: [
+            PackageManagerBinary.YARN,
+            'install',
+            frozen ? '--frozen-lockfile' : '--no-immutable',
+            ...(quiet ? ['--silent'] : []),
+          ],
           runCommand: [PackageManagerBinary.YARN, 'run'],
           scriptCommand: [PackageManagerBinary.YARN],
+          dlxCommand: ['npx', '--yes'],
+          cacheDirectories: ['/usr/local/share/.cache/yarn', 'node_modules'],
         });
       case LockFile.PNPM:
         return new PackageManager({
           lockFile: LockFile.PNPM,
-          installCommand:
-            logLevel && logLevel !== LogLevel.INFO
-              ? [PackageManagerBinary.PNPM, 'install', '--reporter', 'silent']
-              : [PackageManagerBinary.PNPM, 'install'],
+          installCommand: [
+            PackageManagerBinary.PNPM,
+            'install',
+            ...(frozen ? ['--frozen-lockfile'] : []),
+            ...(quiet ? ['--reporter', 'silent'] : []),
+          ],
           runCommand: [PackageManagerBinary.PNPM, 'exec'],
           scriptCommand: [PackageManagerBinary.PNPM, 'run'],
           argsSeparator: '--',
+          dlxCommand: [PackageManagerBinary.PNPM, 'dlx'],
+          cacheDirectories: ['/root/.local/share/pnpm/store', 'node_modules'],
+        });
+      case LockFile.BUN:
+        return new PackageManager({
+          lockFile: LockFile.BUN,
+          installCommand: [
+            PackageManagerBinary.BUN,
+            'install',
+            ...(frozen ? ['--frozen-lockfile'] : []),
+            ...(quiet ? ['--silent'] : []),
+          ],
+          runCommand: [PackageManagerBinary.BUN, 'x'],
+          scriptCommand: [PackageManagerBinary.BUN, 'run'],
+          dlxCommand: ['bunx'],
+          cacheDirectories: ['/root/.bun/install/cache', 'node_modules'],
         });
       default:
+        // npm ci always installs from the lock file
         return new PackageManager({
           lockFile: LockFile.NPM,
           installCommand: logLevel
@@ -146,6 +239,8 @@ export class PackageManager {
           runCommand: ['npx', '--no-install'],
           scriptCommand: [PackageManagerBinary.NPM, 'run'],
           scriptArgFlag: '--',
+          dlxCommand: ['npx', '--yes'],
+          cacheDirectories: ['/root/.npm', 'node_modules'],
         });
     }
   }
@@ -156,6 +251,10 @@ export class PackageManager {
   public readonly scriptCommand: string[];
   public readonly argsSeparator?: string;
   public readonly scriptArgFlag?: string;
+  public readonly dlxCommand: string[];
+  public readonly yarnBerry: boolean;
+  public readonly pnp: boolean;
+  public readonly cacheDirectories: string[];
 
   constructor(props: PackageManagerProps) {
     this.lockFile = props.lockFile;
@@ -164,6 +263,10 @@ export class PackageManager {
     this.scriptCommand = props.scriptCommand;
     this.argsSeparator = props.argsSeparator;
     this.scriptArgFlag = props.scriptArgFlag;
+    this.dlxCommand = props.dlxCommand ?? ['npx', '--yes'];
+    this.yarnBerry = props.yarnBerry ?? false;
+    this.pnp = props.pnp ?? false;
+    this.cacheDirectories = props.cacheDirectories ?? ['node_modules'];
   }
 
   public runBinCommand(bin: string): string {
@@ -176,6 +279,10 @@ export class PackageManager {
     ].join(' ');
   }
 
+  public dlx(pkg: string, ...args: string[]): string {
+    return [...this.dlxCommand, pkg, ...args].join(' ');
+  }
+
   public runScript(script: string, ...additonalArgs: string[]): string {
     return [
       ...this.scriptCommand,
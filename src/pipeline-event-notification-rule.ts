@@ -1,38 +1,124 @@
-import { DetailType, NotificationRule } from 'aws-cdk-lib/aws-codestarnotifications';
+import { SlackChannelConfiguration } from 'aws-cdk-lib/aws-chatbot';
+import {
+  DetailType,
+  INotificationRuleTarget,
+  NotificationRule,
+} from 'aws-cdk-lib/aws-codestarnotifications';
 import { Topic } from 'aws-cdk-lib/aws-sns';
 import { CodePipeline } from 'aws-cdk-lib/pipelines';
 import AllowCodeStarSnsPublishStatement from './codestar-sns-publish-access-statement';
 
 /**
- * TODO: Update documentation
+ * Presets of the pipeline events to notify about.
  *
  * @export
- * @interface PipelineEventNotificationRuleProps
- * @typedef {PipelineEventNotificationRuleProps}
+ * @enum {string}
+ */
+export enum PipelineNotificationEvents {
+  /**
+   * Failed pipeline executions, stages, actions and rejected approvals.
+   */
+  FAILURES = 'failures',
+  /**
+   * Manual approvals that are needed, approved or rejected.
+   */
+  APPROVALS = 'approvals',
+  /**
+   * Every stage that starts, succeeds, resumes, is canceled or fails.
+   */
+  STAGE_TRANSITIONS = 'stage-transitions',
+}
+
+const PRESET_EVENTS: Record<PipelineNotificationEvents, string[]> = {
+  [PipelineNotificationEvents.FAILURES]: [
+    'codepipeline-pipeline-pipeline-execution-failed',
+    'codepipeline-pipeline-stage-execution-failed',
+    'codepipeline-pipeline-action-execution-failed',
+    'codepipeline-pipeline-manual-approval-failed',
+  ],
+  [PipelineNotificationEvents.APPROVALS]: [
+    'codepipeline-pipeline-manual-approval-needed',
+    'codepipeline-pipeline-manual-approval-succeeded',
+    'codepipeline-pipeline-manual-approval-failed',
+  ],
+  [PipelineNotificationEvents.STAGE_TRANSITIONS]: [
+    'codepipeline-pipeline-stage-execution-started',
+    'codepipeline-pipeline-stage-execution-succeeded',
+    'codepipeline-pipeline-stage-execution-resumed',
+    'codepipeline-pipeline-stage-execution-canceled',
+    'codepipeline-pipeline-stage-execution-failed',
+  ],
+};
+
+/**
+ * Where and what to notify about the events of a pipeline.
+ *
+ * @export
+ * @interface PipelineNotificationConfig
+ * @typedef {PipelineNotificationConfig}
  */
-export interface PipelineEventNotificationRuleProps {
+export interface PipelineNotificationConfig {
+  /**
+   * ARNs of the SNS topics to notify. AWS Chatbot Chime webhooks, and other subscribers, receive
+   * the notifications through a topic.
+   *
+   * @readonly
+   * @type {?string[]}
+   */
+  readonly notificationTopicArns?: string[];
+  /**
+   * ARNs of the AWS Chatbot Slack channel configurations to notify.
+   *
+   * @readonly
+   * @type {?string[]}
+   */
+  readonly slackChannelConfigurationArns?: string[];
   /**
-   * TODO: Update documentation
+   * Presets of the events to notify about, combined with `events`.
    *
-   * @type {string}
+   * @readonly
+   * @type {?PipelineNotificationEvents[]}
    */
-  notificationTopicArn: string;
+  readonly eventPresets?: PipelineNotificationEvents[];
   /**
-   * TODO: Update documentation
+   * IDs of the events to notify about, ex. `codepipeline-pipeline-pipeline-execution-started`.
    *
+   * @readonly
    * @type {?string[]}
+   * @default - failed and succeeded pipeline executions and needed approvals, unless `eventPresets` are specified
    */
-  events?: string[];
+  readonly events?: string[];
   /**
-   * TODO: Update documentation
+   * The level of detail to include in the notifications.
    *
+   * @readonly
    * @type {?DetailType}
+   * @default DetailType.BASIC
+   */
+  readonly detailType?: DetailType;
+}
+
+/**
+ * Properties for the PipelineEventNotificationRule.
+ *
+ * @export
+ * @interface PipelineEventNotificationRuleProps
+ * @typedef {PipelineEventNotificationRuleProps}
+ * @extends {PipelineNotificationConfig}
+ */
+export interface PipelineEventNotificationRuleProps extends PipelineNotificationConfig {
+  /**
+   * ARN of an SNS topic to notify.
+   *
+   * @readonly
+   * @type {?string}
    */
-  detailType?: DetailType;
+  readonly notificationTopicArn?: string;
 }
 
 /**
- * TODO: Update documentation
+ * Notification rule that sends the events of a pipeline to SNS topics and AWS Chatbot Slack
+ * channels. The topics are given a resource policy that allows CodeStar Notifications to publish.
  *
  * @export
  * @class PipelineEventNotificationRule
@@ -41,34 +127,70 @@ export interface PipelineEventNotificationRuleProps {
  */
 export class PipelineEventNotificationRule extends NotificationRule {
   /**
-   * TODO: Creates an instance of PipelineEventNotificationRule.
+   * Creates an instance of PipelineEventNotificationRule.
    *
    * @constructor
-   * @param {CodePipeline} scope
-   * @param {string} notificationTopicArn
+   * @param {CodePipeline} scope - The pipeline to notify about, it must be built.
+   * @param {PipelineEventNotificationRuleProps} props
    */
   constructor(scope: CodePipeline, props: PipelineEventNotificationRuleProps) {
-    const targetTopic = Topic.fromTopicArn(scope, 'NotificationTopic', props.notificationTopicArn);
-
     const {
+      notificationTopicArn,
+      notificationTopicArns = [],
+      slackChannelConfigurationArns = [],
+      eventPresets = [],
+      detailType = DetailType.BASIC,
+    } = props;
+
+    const topicArns = [
+      ...(notificationTopicArn ? [notificationTopicArn] : []),
+      ...notificationTopicArns,
+    ];
+    if (topicArns.length === 0 && slackChannelConfigurationArns.length === 0) {
+      throw new Error(
+        'Improper configuration: at least one notification topic or Slack channel configuration must be specified',
+      );
+    }
+
+    const topics = topicArns.map((topicArn, index) =>
+      Topic.fromTopicArn(
+        scope,
+        index === 0 ? 'NotificationTopic' : `NotificationTopic${index}`,
+        topicArn,
+      ),
+    );
+    const targets: INotificationRuleTarget[] = [
+      ...topics,
+      ...slackChannelConfigurationArns.map((configurationArn, index) =>
+        SlackChannelConfiguration.fromSlackChannelConfigurationArn(
+          scope,
+          `SlackChannel${index}`,
+          configurationArn,
+        ),
+      ),
+    ];
+
+    let events = props.events ?? [];
+    if (!props.events && eventPresets.length === 0) {
       events = [
         'codepipeline-pipeline-pipeline-execution-failed',
         'codepipeline-pipeline-pipeline-execution-succeeded',
         'codepipeline-pipeline-manual-approval-needed',
-      ],
-      detailType = DetailType.BASIC,
-      notificationTopicArn,
-    } = props;
+      ];
+    }
+    events = [...new Set([...events, ...eventPresets.flatMap(preset => PRESET_EVENTS[preset])])];
 
     const ruleProperties = {
       events,
       detailType,
       source: scope.pipeline,
-      targets: [targetTopic],
+      targets,
     };
 
     super(scope, `Pipeline-Event-Notification`, ruleProperties);
 
-    targetTopic.addToResourcePolicy(new AllowCodeStarSnsPublishStatement(notificationTopicArn));
+    topics.forEach(topic =>
+      topic.addToResourcePolicy(new AllowCodeStarSnsPublishStatement(topic.topicArn)),
+    );
   }
 }
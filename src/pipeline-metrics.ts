@@ -0,0 +1,524 @@
+import { Duration } from 'aws-cdk-lib';
+import {
+  Dashboard,
+  GraphWidget,
+  IMetric,
+  MathExpression,
+  Metric,
+  MetricOptions,
+  TextWidget,
+} from 'aws-cdk-lib/aws-cloudwatch';
+import { IPipeline } from 'aws-cdk-lib/aws-codepipeline';
+import { Rule } from 'aws-cdk-lib/aws-events';
+import { LambdaFunction } from 'aws-cdk-lib/aws-events-targets';
+import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { Construct } from 'constructs';
+import { NODEJS_INLINE_RUNTIME } from './util';
+
+/**
+ * The CloudWatch namespace of the pipeline metrics.
+ */
+export const PIPELINE_METRICS_NAMESPACE = 'BranchPipelines';
+
+/**
+ * The metrics published for each pipeline. Execution metrics have the `Component` and `Pipeline`
+ * dimensions, stage and approval metrics also have the `Stage` dimension.
+ *
+ * @export
+ * @enum {string}
+ */
+export enum PipelineMetricName {
+  /**
+   * Seconds from the start of a pipeline execution until it succeeded or failed.
+   */
+  EXECUTION_DURATION = 'ExecutionDuration',
+  /**
+   * 1 for a failed pipeline execution, 0 for a succeeded one. The average is the failure rate.
+   */
+  EXECUTION_FAILURE = 'ExecutionFailure',
+  /**
+   * Seconds from the start of a stage execution until it succeeded or failed.
+   */
+  STAGE_DURATION = 'StageDuration',
+  /**
+   * Seconds a manual approval waited until it was approved or rejected.
+   */
+  APPROVAL_WAIT_TIME = 'ApprovalWaitTime',
+}
+
+// turns the pipeline state change events into metrics, logged in the CloudWatch embedded metric format
+const HANDLER_CODE = `
+const { CodePipelineClient, ListActionExecutionsCommand, ListPipelineExecutionsCommand } = require('@aws-sdk/client-codepipeline');
+const client = new CodePipelineClient({});
+
+const emit = (metrics, dimensions, timestamp) =>
+  console.log(JSON.stringify({
+    _aws: {
+      Timestamp: timestamp,
+      CloudWatchMetrics: [{
+        Namespace: process.env.NAMESPACE,
+        Dimensions: [Object.keys(dimensions)],
+        Metrics: Object.keys(metrics).map(Name => ({ Name, Unit: Name === '${PipelineMetricName.EXECUTION_FAILURE}' ? 'Count' : 'Seconds' })),
+      }],
+    },
+    ...dimensions,
+    ...metrics,
+  }));
+
+const stageActions = async (pipelineName, pipelineExecutionId, stageName) => {
+  const actions = [];
+  let nextToken;
+  do {
+    const page = await client.send(new ListActionExecutionsCommand({ pipelineName, filter: { pipelineExecutionId }, nextToken }));
+    actions.push(...page.actionExecutionDetails.filter(action => action.stageName === stageName));
+    nextToken = page.nextToken;
+  } while (nextToken);
+  return actions;
+};
+
+const executionStart = async (pipelineName, pipelineExecutionId) => {
+  let nextToken;
+  do {
+    const page = await client.send(new ListPipelineExecutionsCommand({ pipelineName, maxResults: 100, nextToken }));
+    const execution = page.pipelineExecutionSummaries.find(summary => summary.pipelineExecutionId === pipelineExecutionId);
+    if (execution) return execution.startTime;
+    nextToken = page.nextToken;
+  } while (nextToken);
+  return undefined;
+};
+
+exports.handler = async event => {
+  const { pipeline, stage, action, state } = event.detail;
+  const executionId = event.detail['execution-id'];
+  const end = new Date(event.time).getTime();
+  const seconds = start => Math.max(0, (end - new Date(start).getTime()) / 1000);
+  const dimensions = { Component: process.env.COMPONENT_NAME, Pipeline: pipeline };
+
+  if (event['detail-type'] === 'CodePipeline Pipeline Execution State Change') {
+    const startTime = await executionStart(pipeline, executionId);
+    emit({
+      ${PipelineMetricName.EXECUTION_FAILURE}: state === 'FAILED' ? 1 : 0,
+      ...(startTime ? { ${PipelineMetricName.EXECUTION_DURATION}: seconds(startTime) } : {}),
+    }, dimensions, end);
+  } else if (event['detail-type'] === 'CodePipeline Stage Execution State Change') {
+    const starts = (await stageActions(pipeline, executionId, stage)).map(a => new Date(a.startTime).getTime());
+    if (starts.length > 0) emit({ ${PipelineMetricName.STAGE_DURATION}: seconds(Math.min(...starts)) }, { ...dimensions, Stage: stage }, end);
+  } else {
+    const approval = (await stageActions(pipeline, executionId, stage)).find(a => a.actionName === action);
+    if (approval) emit({ ${PipelineMetricName.APPROVAL_WAIT_TIME}: seconds(approval.startTime) }, { ...dimensions, Stage: stage }, end);
+  }
+};
+`;
+
+/**
+ * A metric of the pipelines.
+ *
+ * @export
+ * @param {PipelineMetricName} metricName
+ * @param {Record<string, string>} dimensionsMap - ex. `{ Component: 'api', Pipeline: 'api-main' }`
+ * @param {?MetricOptions} [props]
+ * @returns {Metric}
+ */
+export function pipelineMetric(
+  metricName: PipelineMetricName,
+  dimensionsMap: Record<string, string>,
+  props?: MetricOptions,
+): Metric {
+  return new Metric({
+    namespace: PIPELINE_METRICS_NAMESPACE,
+    metricName,
+    dimensionsMap,
+    period: Duration.hours(1),
+    ...props,
+  });
+}
+
+/**
+ * Search the pipeline metrics, returning a time series for each combination of dimension values.
+ *
+ * @param {PipelineMetricName} metricName
+ * @param {string[]} dimensions - The dimensions of the metric.
+ * @param {string} filter - Search terms the metrics must match, ex. `Pipeline="api-main"`.
+ * @param {string} statistic
+ * @returns {MathExpression}
+ */
+function searchPipelineMetric(
+  metricName: PipelineMetricName,
+  dimensions: string[],
+  filter: string,
+  statistic: string,
+): MathExpression {
+  const schema = [PIPELINE_METRICS_NAMESPACE, ...dimensions].join(',');
+  return new MathExpression({
+    expression: `SEARCH('{${schema}} MetricName="${metricName}" ${filter}', '${statistic}', 3600)`,
+    usingMetrics: {},
+    period: Duration.hours(1),
+  });
+}
+
+/**
+ * The graphs of a pipeline dashboard, each pipeline or stage is a time series.
+ *
+ * @param {string} filter - Search terms the metrics must match.
+ * @param {(IMetric[] | undefined)} executionDuration - The execution duration metrics, searched when not specified.
+ * @param {(IMetric[] | undefined)} failureRate - The failure rate metrics, searched when not specified.
+ * @returns {GraphWidget[]}
+ */
+function pipelineWidgets(
+  filter: string,
+  executionDuration?: IMetric[],
+  failureRate?: IMetric[],
+): GraphWidget[] {
+  const executionDimensions = ['Component', 'Pipeline'];
+  const stageDimensions = ['Component', 'Pipeline', 'Stage'];
+  return [
+    new GraphWidget({
+      title: 'Execution duration (seconds)',
+      left: executionDuration ?? [
+        searchPipelineMetric(
+          PipelineMetricName.EXECUTION_DURATION,
+          executionDimensions,
+          filter,
+          'Average',
+        ),
+      ],
+      width: 12,
+    }),
+    new GraphWidget({
+      title: 'Failure rate',
+      left: failureRate ?? [
+        searchPipelineMetric(
+          PipelineMetricName.EXECUTION_FAILURE,
+          executionDimensions,
+          filter,
+          'Average',
+        ),
+      ],
+      leftYAxis: { min: 0, max: 1 },
+      width: 12,
+    }),
+    new GraphWidget({
+      title: 'Stage duration (seconds)',
+      left: [
+        searchPipelineMetric(PipelineMetricName.STAGE_DURATION, stageDimensions, filter, 'Average'),
+      ],
+      width: 12,
+    }),
+    new GraphWidget({
+      title: 'Time waiting on manual approvals (seconds)',
+      left: [
+        searchPipelineMetric(
+          PipelineMetricName.APPROVAL_WAIT_TIME,
+          stageDimensions,
+          filter,
+          'Maximum',
+        ),
+      ],
+      width: 12,
+    }),
+  ];
+}
+
+/**
+ * Properties for the PipelineMetrics construct.
+ *
+ * @export
+ * @interface PipelineMetricsProps
+ * @typedef {PipelineMetricsProps}
+ */
+export interface PipelineMetricsProps {
+  /**
+   * The pipeline to publish the metrics of.
+   *
+   * @readonly
+   * @type {IPipeline}
+   */
+  readonly pipeline: IPipeline;
+  /**
+   * The name of the component the pipeline deploys.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly componentName: string;
+}
+
+/**
+ * Publishes the metrics of a pipeline, see `PipelineMetricName`. The pipeline, stage and approval
+ * state change events are turned into metrics by a Lambda function.
+ *
+ * @export
+ * @class PipelineMetrics
+ * @typedef {PipelineMetrics}
+ * @extends {Construct}
+ */
+export class PipelineMetrics extends Construct {
+  /**
+   * The function that turns the pipeline events into metrics.
+   *
+   * @readonly
+   * @type {lambda.Function}
+   */
+  readonly handler: lambda.Function;
+  /**
+   * The name of the component the pipeline deploys.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly componentName: string;
+  /**
+   * The name of the pipeline.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly pipelineName: string;
+
+  /**
+   * Creates an instance of PipelineMetrics.
+   *
+   * @constructor
+   * @param {Construct} scope
+   * @param {string} id
+   * @param {PipelineMetricsProps} props
+   */
+  constructor(scope: Construct, id: string, props: PipelineMetricsProps) {
+    super(scope, id);
+
+    const { pipeline, componentName } = props;
+    this.componentName = componentName;
+    this.pipelineName = pipeline.pipelineName;
+
+    this.handler = new lambda.Function(this, 'Handler', {
+      runtime: NODEJS_INLINE_RUNTIME,
+      handler: 'index.handler',
+      code: lambda.Code.fromInline(HANDLER_CODE),
+      timeout: Duration.seconds(30),
+      logRetention: RetentionDays.ONE_MONTH,
+      environment: {
+        NAMESPACE: PIPELINE_METRICS_NAMESPACE,
+        COMPONENT_NAME: componentName,
+      },
+    });
+    this.handler.addToRolePolicy(
+      new PolicyStatement({
+        actions: ['codepipeline:ListPipelineExecutions', 'codepipeline:ListActionExecutions'],
+        resources: [pipeline.pipelineArn],
+      }),
+    );
+
+    const target = new LambdaFunction(this.handler);
+    new Rule(this, 'ExecutionStateChange', {
+      eventPattern: {
+        source: ['aws.codepipeline'],
+        detailType: [
+          'CodePipeline Pipeline Execution State Change',
+          'CodePipeline Stage Execution State Change',
+        ],
+        detail: { pipeline: [pipeline.pipelineName], state: ['SUCCEEDED', 'FAILED'] },
+      },
+      targets: [target],
+    });
+    new Rule(this, 'ApprovalStateChange', {
+      eventPattern: {
+        source: ['aws.codepipeline'],
+        detailType: ['CodePipeline Action Execution State Change'],
+        detail: {
+          pipeline: [pipeline.pipelineName],
+          state: ['SUCCEEDED', 'FAILED'],
+          type: { category: ['Approval'] },
+        },
+      },
+      targets: [target],
+    });
+  }
+
+  /**
+   * The dimensions of the pipeline metrics.
+   *
+   * @private
+   * @readonly
+   * @type {Record<string, string>}
+   */
+  private get dimensionsMap(): Record<string, string> {
+    return { Component: this.componentName, Pipeline: this.pipelineName };
+  }
+
+  /**
+   * The duration of the pipeline executions.
+   *
+   * @public
+   * @param {?MetricOptions} [props]
+   * @returns {Metric}
+   */
+  public metricExecutionDuration(props?: MetricOptions): Metric {
+    return pipelineMetric(PipelineMetricName.EXECUTION_DURATION, this.dimensionsMap, {
+      statistic: 'Average',
+      ...props,
+    });
+  }
+
+  /**
+   * The rate of failed pipeline executions, between 0 and 1.
+   *
+   * @public
+   * @param {?MetricOptions} [props]
+   * @returns {Metric}
+   */
+  public metricFailureRate(props?: MetricOptions): Metric {
+    return pipelineMetric(PipelineMetricName.EXECUTION_FAILURE, this.dimensionsMap, {
+      statistic: 'Average',
+      ...props,
+    });
+  }
+
+  /**
+   * The duration of a stage of the pipeline.
+   *
+   * @public
+   * @param {string} stageName - The name of the pipeline stage.
+   * @param {?MetricOptions} [props]
+   * @returns {Metric}
+   */
+  public metricStageDuration(stageName: string, props?: MetricOptions): Metric {
+    return pipelineMetric(
+      PipelineMetricName.STAGE_DURATION,
+      { ...this.dimensionsMap, Stage: stageName },
+      { statistic: 'Average', ...props },
+    );
+  }
+
+  /**
+   * The time the manual approvals of a stage of the pipeline waited.
+   *
+   * @public
+   * @param {string} stageName - The name of the pipeline stage.
+   * @param {?MetricOptions} [props]
+   * @returns {Metric}
+   */
+  public metricApprovalWaitTime(stageName: string, props?: MetricOptions): Metric {
+    return pipelineMetric(
+      PipelineMetricName.APPROVAL_WAIT_TIME,
+      { ...this.dimensionsMap, Stage: stageName },
+      { statistic: 'Maximum', ...props },
+    );
+  }
+}
+
+/**
+ * Properties for the PipelineDashboard construct.
+ *
+ * @export
+ * @interface PipelineDashboardProps
+ * @typedef {PipelineDashboardProps}
+ */
+export interface PipelineDashboardProps {
+  /**
+   * The metrics of the pipeline.
+   *
+   * @readonly
+   * @type {PipelineMetrics}
+   */
+  readonly metrics: PipelineMetrics;
+  /**
+   * The name of the dashboard.
+   *
+   * @readonly
+   * @type {?string}
+   * @default - generated by CloudFormation
+   */
+  readonly dashboardName?: string;
+}
+
+/**
+ * Operational dashboard of a single pipeline: execution duration, failure rate, the duration of
+ * each stage and the time waiting on manual approvals.
+ *
+ * @export
+ * @class PipelineDashboard
+ * @typedef {PipelineDashboard}
+ * @extends {Dashboard}
+ */
+export class PipelineDashboard extends Dashboard {
+  /**
+   * Creates an instance of PipelineDashboard.
+   *
+   * @constructor
+   * @param {Construct} scope
+   * @param {string} id
+   * @param {PipelineDashboardProps} props
+   */
+  constructor(scope: Construct, id: string, props: PipelineDashboardProps) {
+    super(scope, id, { dashboardName: props.dashboardName });
+
+    const { metrics } = props;
+    this.addWidgets(
+      ...pipelineWidgets(
+        `Pipeline="${metrics.pipelineName}"`,
+        [
+          metrics.metricExecutionDuration({ label: 'Average' }),
+          metrics.metricExecutionDuration({ label: 'Maximum', statistic: 'Maximum' }),
+        ],
+        [metrics.metricFailureRate({ label: 'Failure rate' })],
+      ),
+    );
+  }
+}
+
+/**
+ * Properties for the BranchPipelinesDashboard construct.
+ *
+ * @export
+ * @interface BranchPipelinesDashboardProps
+ * @typedef {BranchPipelinesDashboardProps}
+ */
+export interface BranchPipelinesDashboardProps {
+  /**
+   * The names of the components whose pipelines are shown.
+   *
+   * @readonly
+   * @type {string[]}
+   */
+  readonly componentNames: string[];
+  /**
+   * The name of the dashboard.
+   *
+   * @readonly
+   * @type {?string}
+   * @default - generated by CloudFormation
+   */
+  readonly dashboardName?: string;
+}
+
+/**
+ * Operational dashboard comparing every pipeline of the components, including the pipelines of
+ * ephemeral branches. Each component gets a row of graphs.
+ *
+ * @export
+ * @class BranchPipelinesDashboard
+ * @typedef {BranchPipelinesDashboard}
+ * @extends {Dashboard}
+ */
+export class BranchPipelinesDashboard extends Dashboard {
+  /**
+   * Creates an instance of BranchPipelinesDashboard.
+   *
+   * @constructor
+   * @param {Construct} scope
+   * @param {string} id
+   * @param {BranchPipelinesDashboardProps} props
+   */
+  constructor(scope: Construct, id: string, props: BranchPipelinesDashboardProps) {
+    super(scope, id, { dashboardName: props.dashboardName });
+
+    props.componentNames.forEach(componentName =>
+      this.addWidgets(
+        new TextWidget({ markdown: `# ${componentName}`, width: 24, height: 1 }),
+        ...pipelineWidgets(`Component="${componentName}"`),
+      ),
+    );
+  }
+}
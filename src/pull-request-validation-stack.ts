@@ -0,0 +1,348 @@
+import { Stack, StackProps } from 'aws-cdk-lib';
+import {
+  BuildEnvironmentVariableType,
+  BuildSpec,
+  ComputeType,
+  EventAction,
+  FilterGroup,
+  ISource,
+  LinuxBuildImage,
+  Project,
+  Source,
+} from 'aws-cdk-lib/aws-codebuild';
+import { IRepository, Repository } from 'aws-cdk-lib/aws-codecommit';
+import { EventField, Rule, RuleTargetInput } from 'aws-cdk-lib/aws-events';
+import { CodeBuildProject } from 'aws-cdk-lib/aws-events-targets';
+import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { Construct } from 'constructs';
+import { CodeArtifactConfig } from './code-artifact';
+import {
+  CodeCommitSourceConfig,
+  GitHubSourceConfig,
+  RepositoryConfig,
+  SourceType,
+  sourceTypeOf,
+} from './code-source';
+import { findLockFile, PackageManager } from './package-manager';
+import { defineSynthCommands } from './util';
+
+/**
+ * The context key set when the CDK app is synthesized to validate a pull request. When set,
+ * `BranchPipelines` applies the `WellArchitectedAspects` to the app, unless disabled.
+ */
+export const PULL_REQUEST_CONTEXT_KEY = 'branch-pipelines:pullRequest';
+
+/**
+ * Configuration for the validation of pull requests.
+ *
+ * @export
+ * @interface PullRequestValidationConfig
+ * @typedef {PullRequestValidationConfig}
+ */
+export interface PullRequestValidationConfig {
+  /**
+   * Run the well-architected checks, errors fail the validation.
+   *
+   * @readonly
+   * @type {?boolean}
+   * @default true
+   */
+  readonly wellArchitectedChecks?: boolean;
+  /**
+   * Fail the validation on warnings too, ex. of the well-architected checks.
+   *
+   * @readonly
+   * @type {?boolean}
+   * @default false
+   */
+  readonly strict?: boolean;
+  /**
+   * ARN of a Secrets Manager secret holding a GitHub token, used to comment the summary on GitHub
+   * pull requests. The commit status is reported regardless.
+   *
+   * @readonly
+   * @type {?string}
+   * @default - no comment is posted on GitHub pull requests
+   */
+  readonly githubTokenSecretArn?: string;
+}
+
+/**
+ * A branch whose stages pull requests are diffed against.
+ *
+ * @export
+ * @interface PullRequestTargetBranch
+ * @typedef {PullRequestTargetBranch}
+ */
+export interface PullRequestTargetBranch {
+  /**
+   * The name of the branch.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly branchName: string;
+  /**
+   * The identifier of the pipeline stack of the branch.
+   *
+   * @readonly
+   * @type {?string}
+   * @default - the branch name
+   */
+  readonly staticPipelineIdentifier?: string;
+}
+
+/**
+ * Properties for the PullRequestValidationStack.
+ *
+ * @export
+ * @interface PullRequestValidationStackProps
+ * @typedef {PullRequestValidationStackProps}
+ * @extends {StackProps}
+ * @extends {PullRequestValidationConfig}
+ */
+export interface PullRequestValidationStackProps extends StackProps, PullRequestValidationConfig {
+  /**
+   * The name of the component the pull requests are validated for.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly componentName: string;
+  /**
+   * Configuration for the source code repository, only CodeCommit and GitHub are supported.
+   *
+   * @readonly
+   * @type {RepositoryConfig}
+   */
+  readonly repository: RepositoryConfig;
+  /**
+   * The deployment branches, a pull request is diffed against the stages of the branch it targets.
+   *
+   * @readonly
+   * @type {PullRequestTargetBranch[]}
+   */
+  readonly deploymentBranches: PullRequestTargetBranch[];
+  /**
+   * Install packages from a CodeArtifact repository.
+   *
+   * @readonly
+   * @type {?CodeArtifactConfig}
+   */
+  readonly codeArtifact?: CodeArtifactConfig;
+  /**
+   * Install dependencies in frozen lockfile mode.
+   *
+   * @readonly
+   * @type {?boolean}
+   * @default false
+   */
+  readonly frozenLockfile?: boolean;
+}
+
+/**
+ * A stack that validates the pull requests of a repository before they are merged. Each pull
+ * request is synthesized with the same commands as the pipelines, checked by the well-architected
+ * aspects and diffed against the deployed stages of the branch it targets. The summary is posted
+ * as a comment on CodeCommit pull requests, GitHub pull requests get a commit status and, with a
+ * token, a comment.
+ *
+ * GitHub repositories require GitHub source credentials to be imported into CodeBuild, the
+ * CodeStar connection of the pipelines cannot be used by CodeBuild webhooks.
+ *
+ * @export
+ * @class PullRequestValidationStack
+ * @typedef {PullRequestValidationStack}
+ * @extends {Stack}
+ */
+export class PullRequestValidationStack extends Stack {
+  /**
+   * The CodeBuild project that validates the pull requests.
+   *
+   * @readonly
+   * @type {Project}
+   */
+  readonly project: Project;
+
+  /**
+   * Creates an instance of PullRequestValidationStack.
+   *
+   * @constructor
+   * @param {Construct} scope
+   * @param {string} id
+   * @param {PullRequestValidationStackProps} props
+   */
+  constructor(scope: Construct, id: string, props: PullRequestValidationStackProps) {
+    super(scope, id, props);
+
+    const {
+      componentName,
+      deploymentBranches,
+      strict = false,
+      githubTokenSecretArn,
+      codeArtifact,
+      frozenLockfile,
+    } = props;
+    const { source: sourceConfig, baseDir = '.', synthOuputDir = 'out' } = props.repository;
+    const sourceType = sourceTypeOf(sourceConfig);
+
+    if (sourceType !== SourceType.CODECOMMIT && sourceType !== SourceType.GITHUB) {
+      throw new Error(
+        'Improper configuration: pull request validation requires a CodeCommit or GitHub repository',
+      );
+    }
+
+    const pkgManager = PackageManager.fromLockFile(findLockFile(), undefined, frozenLockfile);
+    const summary = '$CODEBUILD_SRC_DIR/pr-summary.md';
+    const diff = '$CODEBUILD_SRC_DIR/pr-diff.txt';
+
+    // the stages of the pipeline of the targeted branch, and the pipeline itself, are diffed
+    const targetStacks = deploymentBranches
+      .map(
+        ({ branchName, staticPipelineIdentifier }) =>
+          `"${branchName}") STACKS="${componentName}-${
+            staticPipelineIdentifier || branchName
+          }-pipeline/**" ;;`,
+      )
+      .join(' ');
+
+    let source: ISource;
+    let reportCommands: string[];
+    let repository: IRepository | undefined;
+    if (sourceType === SourceType.CODECOMMIT) {
+      repository = Repository.fromRepositoryArn(
+        this,
+        'Repository',
+        (sourceConfig as CodeCommitSourceConfig).codeCommitArn,
+      );
+      source = Source.codeCommit({ repository });
+      reportCommands = [
+        // CodeCommit comments are limited to 10240 characters
+        `aws codecommit post-comment-for-pull-request --repository-name ${repository.repositoryName} --pull-request-id "$PULL_REQUEST_ID" --before-commit-id "$DESTINATION_COMMIT" --after-commit-id "$SOURCE_COMMIT" --content "$(head -c 10000 ${summary})"`,
+      ];
+    } else {
+      const [owner, repo] = (sourceConfig as GitHubSourceConfig).owner.split('/');
+      source = Source.gitHub({
+        owner,
+        repo,
+        reportBuildStatus: true,
+        webhookFilters: [
+          FilterGroup.inEventOf(
+            EventAction.PULL_REQUEST_CREATED,
+            EventAction.PULL_REQUEST_UPDATED,
+            EventAction.PULL_REQUEST_REOPENED,
+          ),
+        ],
+      });
+      reportCommands = githubTokenSecretArn
+        ? [
+            `curl -sf -X POST -H "Authorization: Bearer $GITHUB_TOKEN" -H "Accept: application/vnd.github+json" https://api.github.com/repos/${owner}/${repo}/issues/\${CODEBUILD_WEBHOOK_TRIGGER#pr/}/comments -d "$(jq -Rs '{body: .}' ${summary})" > /dev/null`,
+          ]
+        : [];
+    }
+
+    this.project = new Project(this, 'Validation', {
+      source,
+      environment: {
+        buildImage: LinuxBuildImage.STANDARD_7_0,
+        computeType: ComputeType.LARGE,
+        privileged: true,
+      },
+      environmentVariables:
+        sourceType === SourceType.GITHUB && githubTokenSecretArn
+          ? {
+              GITHUB_TOKEN: {
+                type: BuildEnvironmentVariableType.SECRETS_MANAGER,
+                value: githubTokenSecretArn,
+              },
+            }
+          : undefined,
+      buildSpec: BuildSpec.fromObject({
+        version: '0.2',
+        phases: {
+          build: {
+            commands: [
+              `touch ${diff}`,
+              // GitHub webhooks pass the targeted branch as a ref
+              'TARGET_BRANCH=${TARGET_BRANCH:-${CODEBUILD_WEBHOOK_BASE_REF}}',
+              'TARGET_BRANCH=${TARGET_BRANCH#refs/heads/}',
+              ...defineSynthCommands(
+                baseDir,
+                synthOuputDir,
+                undefined,
+                true,
+                codeArtifact,
+                frozenLockfile,
+                [`-c ${PULL_REQUEST_CONTEXT_KEY}=true`, ...(strict ? ['--strict'] : [])],
+              ),
+              `STACKS=""; case "$TARGET_BRANCH" in ${targetStacks} esac`,
+              `if [ -n "$STACKS" ]; then ${pkgManager.runScript(
+                'cdk diff',
+                `-a ${synthOuputDir}`,
+                '--no-color',
+                '"$STACKS"',
+              )} > ${diff} 2>&1 || true; else echo "$TARGET_BRANCH is not a deployment branch" > ${diff}; fi`,
+              `cat ${diff}`,
+            ],
+          },
+          post_build: {
+            commands: [
+              `if [ "$CODEBUILD_BUILD_SUCCEEDING" = "1" ]; then RESULT="passed"; else RESULT="failed, see $CODEBUILD_BUILD_URL"; fi`,
+              `printf '### ${componentName} validation %s\\n\\nDiff against %s:\\n\\n\`\`\`\\n' "$RESULT" "$TARGET_BRANCH" > ${summary}`,
+              `head -c 9000 ${diff} >> ${summary}`,
+              `printf '\\n\`\`\`\\n' >> ${summary}`,
+              ...reportCommands,
+            ],
+          },
+        },
+      }),
+    });
+
+    // cdk diff reads the deployed templates through the bootstrap roles
+    this.project.addToRolePolicy(
+      new PolicyStatement({
+        actions: ['sts:AssumeRole'],
+        resources: ['*'],
+        conditions: {
+          StringEquals: {
+            'iam:ResourceTag/aws-cdk:bootstrap-role': ['lookup', 'deploy'],
+          },
+        },
+      }),
+    );
+
+    if (repository) {
+      repository.grant(this.project, 'codecommit:PostCommentForPullRequest');
+
+      new Rule(this, 'PullRequestRule', {
+        description: `Validates the pull requests of the ${componentName} component`,
+        eventPattern: {
+          source: ['aws.codecommit'],
+          detailType: ['CodeCommit Pull Request State Change'],
+          resources: [repository.repositoryArn],
+          detail: {
+            event: ['pullRequestCreated', 'pullRequestSourceBranchUpdated'],
+            pullRequestStatus: ['Open'],
+          },
+        },
+        targets: [
+          new CodeBuildProject(this.project, {
+            event: RuleTargetInput.fromObject({
+              sourceVersion: EventField.fromPath('$.detail.sourceCommit'),
+              environmentVariablesOverride: [
+                ['PULL_REQUEST_ID', '$.detail.pullRequestId'],
+                ['SOURCE_COMMIT', '$.detail.sourceCommit'],
+                ['DESTINATION_COMMIT', '$.detail.destinationCommit'],
+                ['TARGET_BRANCH', '$.detail.destinationReference'],
+              ].map(([name, path]) => ({
+                name,
+                value: EventField.fromPath(path),
+                type: 'PLAINTEXT',
+              })),
+            }),
+          }),
+        ],
+      });
+    }
+  }
+}
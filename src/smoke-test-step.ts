@@ -0,0 +1,115 @@
+import { CfnOutput, Stage } from 'aws-cdk-lib';
+import { BuildEnvironmentVariable } from 'aws-cdk-lib/aws-codebuild';
+import { CodeBuildStep, IFileSetProducer } from 'aws-cdk-lib/pipelines';
+import { IConstruct } from 'constructs';
+
+/**
+ * Configuration for a smoke test run after a stage has been deployed.
+ *
+ * @export
+ * @interface SmokeTestConfig
+ * @typedef {SmokeTestConfig}
+ */
+export interface SmokeTestConfig {
+  /**
+   * The name of the smoke test, used as the step id in the pipeline.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly name: string;
+  /**
+   * Commands to run. The commands run from the root of the source repository, a non-zero exit
+   * code fails the pipeline before the next stage is promoted.
+   *
+   * @readonly
+   * @type {string[]}
+   */
+  readonly commands: string[];
+  /**
+   * Installation commands to run before the regular commands.
+   *
+   * @readonly
+   * @type {?string[]}
+   */
+  readonly installCommands?: string[];
+  /**
+   * Environment variables to set.
+   *
+   * @readonly
+   * @type {?Record<string, string>}
+   */
+  readonly env?: Record<string, string>;
+  /**
+   * Environment variables resolved by CodeBuild from SSM Parameter Store or Secrets Manager, ex.
+   * `{ TOKEN: { type: BuildEnvironmentVariableType.PARAMETER_STORE, value: '/dev/token' } }`. The
+   * smoke test is granted read access to the referenced parameters and secrets.
+   *
+   * @readonly
+   * @type {?Record<string, BuildEnvironmentVariable>}
+   */
+  readonly buildEnv?: Record<string, BuildEnvironmentVariable>;
+  /**
+   * Set environment variables based on the stage's CfnOutputs. The key is the name of the
+   * environment variable, the value is the construct path of the CfnOutput relative to the
+   * stage, ex. `{ ENDPOINT: 'WebStack/WebsiteEndpoint' }`.
+   *
+   * @readonly
+   * @type {?Record<string, string>}
+   */
+  readonly envFromCfnOutputs?: Record<string, string>;
+}
+
+/**
+ * Find a CfnOutput by its construct path relative to the stage.
+ *
+ * @param {Stage} stage
+ * @param {string} path
+ * @returns {CfnOutput}
+ */
+function findCfnOutput(stage: Stage, path: string): CfnOutput {
+  let node: IConstruct | undefined = stage;
+  for (const id of path.split('/')) {
+    node = node?.node.tryFindChild(id);
+  }
+
+  if (!(node instanceof CfnOutput)) {
+    throw new Error(`Stage '${stage.stageName}' does not have a CfnOutput at '${path}'`);
+  }
+  return node;
+}
+
+/**
+ * CodeBuildStep that runs smoke tests against a deployed stage, with environment variables wired
+ * from the stage's CfnOutputs, parameters and secrets.
+ *
+ * @export
+ * @class SmokeTestStep
+ * @typedef {SmokeTestStep}
+ * @extends {CodeBuildStep}
+ */
+export class SmokeTestStep extends CodeBuildStep {
+  /**
+   * Creates an instance of SmokeTestStep.
+   *
+   * @constructor
+   * @param {Stage} stage - The stage the smoke test runs against.
+   * @param {SmokeTestConfig} config
+   * @param {?IFileSetProducer} [input] - The source to run the commands in.
+   */
+  constructor(stage: Stage, config: SmokeTestConfig, input?: IFileSetProducer) {
+    const envFromCfnOutputs: Record<string, CfnOutput> = {};
+    Object.entries(config.envFromCfnOutputs ?? {}).forEach(([name, path]) => {
+      envFromCfnOutputs[name] = findCfnOutput(stage, path);
+    });
+
+    super(config.name, {
+      input,
+      installCommands: config.installCommands,
+      commands: config.commands,
+      env: config.env,
+      envFromCfnOutputs,
+      buildEnvironment: config.buildEnv ? { environmentVariables: config.buildEnv } : undefined,
+    });
+  }
+}
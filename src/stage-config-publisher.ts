@@ -0,0 +1,242 @@
+import { Stack } from 'aws-cdk-lib';
+import {
+  CfnApplication,
+  CfnConfigurationProfile,
+  CfnDeployment,
+  CfnEnvironment,
+  CfnHostedConfigurationVersion,
+} from 'aws-cdk-lib/aws-appconfig';
+import { Grant, IGrantable } from 'aws-cdk-lib/aws-iam';
+import { StringParameter } from 'aws-cdk-lib/aws-ssm';
+import { Construct } from 'constructs';
+import { isPlainObject, set } from 'lodash';
+import { ConfiguredStage } from './configured-stage';
+
+/**
+ * Where the config of a stage is published.
+ *
+ * @export
+ * @enum {string}
+ */
+export enum StageConfigStore {
+  /**
+   * A hierarchy of SSM parameters, one parameter per key of the config.
+   */
+  PARAMETER_STORE = 'parameter-store',
+  /**
+   * A JSON document in an AppConfig hosted configuration profile.
+   */
+  APP_CONFIG = 'app-config',
+}
+
+/**
+ * Properties for the StageConfigPublisher.
+ *
+ * @export
+ * @interface StageConfigPublisherProps
+ * @typedef {StageConfigPublisherProps}
+ */
+export interface StageConfigPublisherProps {
+  /**
+   * Where to publish the config.
+   *
+   * @readonly
+   * @type {?StageConfigStore}
+   * @default StageConfigStore.PARAMETER_STORE
+   */
+  readonly store?: StageConfigStore;
+  /**
+   * The paths of the keys to publish, ex. `['database.port', 'featureFlags']`.
+   *
+   * @readonly
+   * @type {?string[]}
+   * @default - the whole config
+   */
+  readonly keys?: string[];
+  /**
+   * The prefix of the SSM parameters, the parameter of `database.port` is named
+   * `<prefix>/database/port`. The keys may only contain letters, numbers, `.`, `-` and `_`, and
+   * the values cannot be empty.
+   *
+   * @readonly
+   * @type {?string}
+   * @default `/<stage name>/config`
+   */
+  readonly parameterPrefix?: string;
+  /**
+   * The name of the AppConfig application.
+   *
+   * @readonly
+   * @type {?string}
+   * @default - the name of the stage
+   */
+  readonly applicationName?: string;
+}
+
+const PARAMETER_KEY = /^[A-Za-z0-9_.-]+$/;
+
+/**
+ * Flatten a config into the keys and values of its leaves. Strings are published as is, other
+ * values as JSON.
+ *
+ * @param {Record<string, unknown>} config
+ * @param {string[]} [path=[]] - The key of the config.
+ * @returns {[string[], string][]}
+ */
+function configLeaves(config: Record<string, unknown>, path: string[] = []): [string[], string][] {
+  return Object.entries(config).flatMap(([key, value]): [string[], string][] => {
+    if (isPlainObject(value)) return configLeaves(value as Record<string, unknown>, [...path, key]);
+    if (value === undefined) return [];
+    return [[[...path, key], typeof value === 'string' ? value : JSON.stringify(value)]];
+  });
+}
+
+/**
+ * Publishes the config of the ConfiguredStage it is created in, or the selected keys of it, to SSM
+ * Parameter Store or AppConfig for functions and containers to read at runtime. Create it in a
+ * stack of the stage and grant the consumers access with `grantRead`.
+ *
+ * @export
+ * @class StageConfigPublisher
+ * @typedef {StageConfigPublisher}
+ * @extends {Construct}
+ */
+export class StageConfigPublisher extends Construct {
+  /**
+   * The prefix of the SSM parameters, when published to Parameter Store.
+   *
+   * @readonly
+   * @type {?string}
+   */
+  readonly parameterPrefix?: string;
+  /**
+   * The SSM parameters, when published to Parameter Store.
+   *
+   * @readonly
+   * @type {StringParameter[]}
+   */
+  readonly parameters: StringParameter[] = [];
+  /**
+   * The AppConfig application, when published to AppConfig.
+   *
+   * @readonly
+   * @type {?CfnApplication}
+   */
+  readonly application?: CfnApplication;
+  /**
+   * The AppConfig environment, when published to AppConfig.
+   *
+   * @readonly
+   * @type {?CfnEnvironment}
+   */
+  readonly environment?: CfnEnvironment;
+  /**
+   * The AppConfig configuration profile, when published to AppConfig.
+   *
+   * @readonly
+   * @type {?CfnConfigurationProfile}
+   */
+  readonly configurationProfile?: CfnConfigurationProfile;
+
+  /**
+   * Creates an instance of StageConfigPublisher.
+   *
+   * @constructor
+   * @param {Construct} scope - A construct within a stack of a ConfiguredStage.
+   * @param {string} id
+   * @param {StageConfigPublisherProps} [props={}]
+   */
+  constructor(scope: Construct, id: string, props: StageConfigPublisherProps = {}) {
+    super(scope, id);
+
+    const stage = ConfiguredStage.requireOf<Record<string, unknown>>(this);
+
+    const { store = StageConfigStore.PARAMETER_STORE, keys } = props;
+    const config: Record<string, unknown> = keys
+      ? keys.reduce((selected, key) => set(selected, key, stage.get(key)), {})
+      : stage.config;
+
+    if (store === StageConfigStore.APP_CONFIG) {
+      this.application = new CfnApplication(this, 'Application', {
+        name: props.applicationName ?? stage.stageName,
+      });
+      this.environment = new CfnEnvironment(this, 'Environment', {
+        applicationId: this.application.ref,
+        name: stage.stageName,
+      });
+      this.configurationProfile = new CfnConfigurationProfile(this, 'ConfigurationProfile', {
+        applicationId: this.application.ref,
+        name: 'config',
+        locationUri: 'hosted',
+      });
+      const version = new CfnHostedConfigurationVersion(this, 'ConfigurationVersion', {
+        applicationId: this.application.ref,
+        configurationProfileId: this.configurationProfile.ref,
+        content: Stack.of(this).toJsonString(config),
+        contentType: 'application/json',
+      });
+      new CfnDeployment(this, 'Deployment', {
+        applicationId: this.application.ref,
+        environmentId: this.environment.ref,
+        configurationProfileId: this.configurationProfile.ref,
+        configurationVersion: version.ref,
+        deploymentStrategyId: 'AppConfig.AllAtOnce',
+      });
+      return;
+    }
+
+    this.parameterPrefix = props.parameterPrefix ?? `/${stage.stageName}/config`;
+    this.parameters = configLeaves(config).map(([key, stringValue]) => {
+      if (!key.every(segment => PARAMETER_KEY.test(segment))) {
+        throw new Error(
+          `Improper configuration: the config key '${key.join('.')}' of stage '${
+            stage.stageName
+          }' cannot be published to Parameter Store, keys may only contain letters, numbers, '.', '-' and '_'`,
+        );
+      }
+      if (stringValue === '') {
+        throw new Error(
+          `Improper configuration: the config key '${key.join('.')}' of stage '${
+            stage.stageName
+          }' cannot be published to Parameter Store, its value is empty`,
+        );
+      }
+      return new StringParameter(this, key.join('.'), {
+        parameterName: [this.parameterPrefix, ...key].join('/'),
+        stringValue,
+      });
+    });
+  }
+
+  /**
+   * Grant reading the published config, the parameters by path or the AppConfig configuration.
+   *
+   * @param {IGrantable} grantee
+   * @returns {Grant}
+   */
+  grantRead(grantee: IGrantable): Grant {
+    const stack = Stack.of(this);
+    if (this.application && this.environment && this.configurationProfile) {
+      return Grant.addToPrincipal({
+        grantee,
+        actions: ['appconfig:StartConfigurationSession', 'appconfig:GetLatestConfiguration'],
+        resourceArns: [
+          stack.formatArn({
+            service: 'appconfig',
+            resource: 'application',
+            resourceName: `${this.application.ref}/environment/${this.environment.ref}/configuration/${this.configurationProfile.ref}`,
+          }),
+        ],
+      });
+    }
+    // parameter ARNs do not repeat the leading slash of the name
+    const prefix = (this.parameterPrefix ?? '').replace(/^\//, '');
+    return Grant.addToPrincipal({
+      grantee,
+      actions: ['ssm:GetParameter', 'ssm:GetParameters', 'ssm:GetParametersByPath'],
+      resourceArns: [prefix, `${prefix}/*`].map(resourceName =>
+        stack.formatArn({ service: 'ssm', resource: 'parameter', resourceName }),
+      ),
+    });
+  }
+}
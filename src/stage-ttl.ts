@@ -0,0 +1,268 @@
+import { Arn, Duration, Stack } from 'aws-cdk-lib';
+import { Rule, Schedule } from 'aws-cdk-lib/aws-events';
+import { LambdaFunction } from 'aws-cdk-lib/aws-events-targets';
+import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { CodeBuildStep, StackDeployment } from 'aws-cdk-lib/pipelines';
+import { Construct } from 'constructs';
+import { NODEJS_INLINE_RUNTIME, stackEnvironment } from './util';
+
+/**
+ * Tag any stack of a stage with this key and an ISO 8601 date, ex. `2024-12-31`, to keep the stage
+ * until then.
+ */
+export const STAGE_TTL_EXTEND_TAG = 'branch-pipelines:ttl-extend-until';
+
+/**
+ * Configuration for the time to live of a stage.
+ *
+ * @export
+ * @interface StageTtlConfig
+ * @typedef {StageTtlConfig}
+ */
+export interface StageTtlConfig {
+  /**
+   * How long the stage is kept after it was last deployed by the pipeline, or its stacks were
+   * last updated. The stacks are destroyed once the stage has not been deployed for this period.
+   *
+   * @readonly
+   * @type {Duration}
+   */
+  readonly duration: Duration;
+  /**
+   * How long before the teardown to notify the `notificationTopicArn`.
+   *
+   * @readonly
+   * @type {?Duration}
+   * @default Duration.days(1)
+   */
+  readonly warningPeriod?: Duration;
+  /**
+   * ARN of an SNS topic notified before the stage is torn down.
+   *
+   * @readonly
+   * @type {?string}
+   */
+  readonly notificationTopicArn?: string;
+}
+
+/**
+ * Properties for the StageTtl construct.
+ *
+ * @export
+ * @interface StageTtlProps
+ * @typedef {StageTtlProps}
+ * @extends {StageTtlConfig}
+ */
+export interface StageTtlProps extends StageTtlConfig {
+  /**
+   * The name of the stage.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly stageName: string;
+  /**
+   * The stacks of the stage, in the order they are deployed.
+   *
+   * @readonly
+   * @type {StackDeployment[]}
+   */
+  readonly stacks: StackDeployment[];
+}
+
+// how often the time to live of the stage is checked
+const SCHEDULE = Duration.minutes(15);
+
+// destroys the stacks of the stage, the last deployed first, once the time to live has expired
+const HANDLER_CODE = `
+const { CloudFormationClient, DeleteStackCommand, DescribeStacksCommand } = require('@aws-sdk/client-cloudformation');
+const { PublishCommand, SNSClient } = require('@aws-sdk/client-sns');
+const { AssumeRoleCommand, STSClient } = require('@aws-sdk/client-sts');
+const { GetParameterCommand, SSMClient } = require('@aws-sdk/client-ssm');
+const { STAGE_NAME, STACKS, TTL_SECONDS, WARNING_SECONDS, SCHEDULE_SECONDS, EXTEND_TAG, TOPIC_ARN, DEPLOYED_PARAMETER } = process.env;
+
+const cloudFormation = async ({ region, deployRoleArn }) => {
+  if (!deployRoleArn) return new CloudFormationClient({ region });
+  const { Credentials } = await new STSClient({}).send(new AssumeRoleCommand({ RoleArn: deployRoleArn, RoleSessionName: 'stage-ttl' }));
+  const { AccessKeyId: accessKeyId, SecretAccessKey: secretAccessKey, SessionToken: sessionToken } = Credentials;
+  return new CloudFormationClient({ region, credentials: { accessKeyId, secretAccessKey, sessionToken } });
+};
+
+const describeStack = async (client, StackName) => {
+  try {
+    const [stack] = (await client.send(new DescribeStacksCommand({ StackName }))).Stacks;
+    return stack.StackStatus === 'DELETE_COMPLETE' ? undefined : stack;
+  } catch (e) {
+    if (/does not exist/.test(e.message)) return undefined;
+    throw e;
+  }
+};
+
+// when the pipeline last deployed the stage, deploys without changes do not update the stacks
+const lastDeployed = async () => {
+  try {
+    const { Parameter } = await new SSMClient({}).send(new GetParameterCommand({ Name: DEPLOYED_PARAMETER }));
+    return Date.parse(Parameter.Value) || 0;
+  } catch (e) {
+    if (e.name === 'ParameterNotFound') return 0;
+    throw e;
+  }
+};
+
+exports.handler = async () => {
+  const deployed = [];
+  for (const stack of JSON.parse(STACKS)) {
+    const client = await cloudFormation(stack);
+    const described = await describeStack(client, stack.stackName);
+    if (described) deployed.push({ ...stack, client, described });
+  }
+  if (deployed.length === 0) return;
+
+  const expiresAt = Math.max((await lastDeployed()) + TTL_SECONDS * 1000, ...deployed.map(({ described }) => {
+    const lastDeployed = new Date(described.LastUpdatedTime || described.CreationTime).getTime();
+    const extension = (described.Tags || []).find(tag => tag.Key === EXTEND_TAG);
+    return Math.max(lastDeployed + TTL_SECONDS * 1000, extension ? Date.parse(extension.Value) || 0 : 0);
+  }));
+  const warnAt = expiresAt - WARNING_SECONDS * 1000;
+  const now = Date.now();
+
+  if (now >= expiresAt) {
+    const last = deployed[deployed.length - 1];
+    if (last.described.StackStatus === 'DELETE_IN_PROGRESS') return;
+    console.log('Destroying ' + last.stackName + ', the time to live of ' + STAGE_NAME + ' expired');
+    await last.client.send(new DeleteStackCommand({ StackName: last.stackName }));
+  } else if (TOPIC_ARN && now >= warnAt && now < warnAt + SCHEDULE_SECONDS * 1000) {
+    const teardown = new Date(expiresAt).toISOString();
+    await new SNSClient({}).send(new PublishCommand({
+      TopicArn: TOPIC_ARN,
+      Subject: STAGE_NAME + ' will be torn down',
+      Message: 'The stacks of ' + STAGE_NAME + ' will be destroyed after ' + teardown + '. Deploy the stage, or tag one of its stacks with ' + EXTEND_TAG + ' and a later ISO 8601 date, to keep it.',
+    }));
+  }
+};
+`;
+
+/**
+ * Destroys the stacks of a stage once it has not been deployed for the time to live, the last
+ * deployed stack first. A notification is published before the teardown. The teardown is
+ * postponed by deploying the stage or by tagging one of its stacks with `STAGE_TTL_EXTEND_TAG`.
+ *
+ * Deploys without changes do not update the stacks, run the `recordDeployment` step after the
+ * stage is deployed to record when the pipeline last deployed it.
+ *
+ * The stacks are destroyed through the CDK bootstrap deploy role of their environment.
+ *
+ * @export
+ * @class StageTtl
+ * @typedef {StageTtl}
+ * @extends {Construct}
+ */
+export class StageTtl extends Construct {
+  /**
+   * The function that checks the time to live and destroys the stacks.
+   *
+   * @readonly
+   * @type {lambda.Function}
+   */
+  readonly handler: lambda.Function;
+  /**
+   * The SSM parameter the time the stage was last deployed is recorded in.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly deployedParameterName: string;
+  /**
+   * A step that records the time the stage was last deployed, run it after the stage is deployed.
+   *
+   * @readonly
+   * @type {CodeBuildStep}
+   */
+  readonly recordDeployment: CodeBuildStep;
+
+  /**
+   * Creates an instance of StageTtl.
+   *
+   * @constructor
+   * @param {Construct} scope
+   * @param {string} id
+   * @param {StageTtlProps} props
+   */
+  constructor(scope: Construct, id: string, props: StageTtlProps) {
+    super(scope, id);
+
+    const { stageName, duration, warningPeriod = Duration.days(1), notificationTopicArn } = props;
+    const stacks = props.stacks.map(stackEnvironment);
+    const stack = Stack.of(this);
+    // the stage names are unique within the pipeline stack
+    this.deployedParameterName = `/branch-pipelines/stage-ttl/${stack.stackName}/${stageName}`;
+    const deployedParameterArn = Arn.format(
+      {
+        service: 'ssm',
+        resource: 'parameter',
+        resourceName: this.deployedParameterName.substring(1),
+      },
+      stack,
+    );
+
+    this.handler = new lambda.Function(this, 'Handler', {
+      runtime: NODEJS_INLINE_RUNTIME,
+      handler: 'index.handler',
+      code: lambda.Code.fromInline(HANDLER_CODE),
+      timeout: Duration.minutes(1),
+      logRetention: RetentionDays.ONE_MONTH,
+      environment: {
+        STAGE_NAME: stageName,
+        STACKS: JSON.stringify(
+          stacks.map(({ stackName, region, deployRoleArn }) => ({
+            stackName,
+            region,
+            deployRoleArn,
+          })),
+        ),
+        TTL_SECONDS: `${duration.toSeconds()}`,
+        WARNING_SECONDS: `${warningPeriod.toSeconds()}`,
+        SCHEDULE_SECONDS: `${SCHEDULE.toSeconds()}`,
+        EXTEND_TAG: STAGE_TTL_EXTEND_TAG,
+        DEPLOYED_PARAMETER: this.deployedParameterName,
+        ...(notificationTopicArn ? { TOPIC_ARN: notificationTopicArn } : {}),
+      },
+    });
+
+    // the stacks are described and destroyed through the bootstrap deploy roles
+    this.handler.addToRolePolicy(
+      new PolicyStatement({
+        actions: ['sts:AssumeRole'],
+        resources: ['*'],
+        conditions: {
+          StringEquals: { 'iam:ResourceTag/aws-cdk:bootstrap-role': 'deploy' },
+        },
+      }),
+    );
+    this.handler.addToRolePolicy(
+      new PolicyStatement({ actions: ['ssm:GetParameter'], resources: [deployedParameterArn] }),
+    );
+    if (notificationTopicArn) {
+      this.handler.addToRolePolicy(
+        new PolicyStatement({ actions: ['sns:Publish'], resources: [notificationTopicArn] }),
+      );
+    }
+
+    new Rule(this, 'Schedule', {
+      description: `Checks the time to live of the ${stageName} stage`,
+      schedule: Schedule.rate(SCHEDULE),
+      targets: [new LambdaFunction(this.handler)],
+    });
+
+    this.recordDeployment = new CodeBuildStep('RecordDeployment', {
+      commands: [
+        `aws ssm put-parameter --name ${this.deployedParameterName} --type String --overwrite --value "$(date -u +%Y-%m-%dT%H:%M:%SZ)"`,
+      ],
+      rolePolicyStatements: [
+        new PolicyStatement({ actions: ['ssm:PutParameter'], resources: [deployedParameterArn] }),
+      ],
+    });
+  }
+}
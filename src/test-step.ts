@@ -0,0 +1,242 @@
+import {
+  BuildSpec,
+  mergeBuildSpecs,
+  ReportGroup,
+  ReportGroupType,
+} from 'aws-cdk-lib/aws-codebuild';
+import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { CodeBuildOptions, CodeBuildStep, IFileSetProducer } from 'aws-cdk-lib/pipelines';
+import { Construct } from 'constructs';
+import { CodeArtifactConfig, codeArtifactReadStatements } from './code-artifact';
+import { defineTestCommands } from './util';
+
+/**
+ * The format of a coverage report.
+ *
+ * @export
+ * @enum {string}
+ */
+export enum CoverageReportFormat {
+  /** A Clover XML report. */
+  CLOVERXML = 'CLOVERXML',
+  /** A Cobertura XML report. */
+  COBERTURAXML = 'COBERTURAXML',
+  /** A JaCoCo XML report. */
+  JACOCOXML = 'JACOCOXML',
+  /** A SimpleCov JSON report. */
+  SIMPLECOV = 'SIMPLECOV',
+}
+
+/**
+ * Configuration for running the project tests before synth.
+ *
+ * @export
+ * @interface TestStepConfig
+ * @typedef {TestStepConfig}
+ */
+export interface TestStepConfig {
+  /**
+   * Commands to run the tests, these run from the repository `baseDir` after dependencies have
+   * been installed with the detected package manager.
+   *
+   * @readonly
+   * @type {?string[]}
+   * @default - the `test` script of the detected package manager, ex. `npm run test`
+   */
+  readonly commands?: string[];
+  /**
+   * Publish the test results and coverage to CodeBuild report groups.
+   *
+   * @readonly
+   * @type {?boolean}
+   * @default true
+   */
+  readonly reports?: boolean;
+  /**
+   * JUnit XML files with the test results, relative to `baseDir`.
+   *
+   * @readonly
+   * @type {?string[]}
+   * @default ['test-reports/*.xml']
+   */
+  readonly junitReportFiles?: string[];
+  /**
+   * Coverage report file, relative to `baseDir`.
+   *
+   * @readonly
+   * @type {?string}
+   * @default 'coverage/clover.xml'
+   */
+  readonly coverageReportFile?: string;
+  /**
+   * The format of the coverage report file.
+   *
+   * @readonly
+   * @type {?CoverageReportFormat}
+   * @default CoverageReportFormat.CLOVERXML
+   */
+  readonly coverageReportFormat?: CoverageReportFormat;
+}
+
+/**
+ * Properties for the TestStep.
+ *
+ * @export
+ * @interface TestStepProps
+ * @typedef {TestStepProps}
+ * @extends {TestStepConfig}
+ */
+export interface TestStepProps extends TestStepConfig {
+  /**
+   * The source to run the tests against.
+   *
+   * @readonly
+   * @type {IFileSetProducer}
+   */
+  readonly input: IFileSetProducer;
+  /**
+   * Base directory for the repository.
+   *
+   * @readonly
+   * @type {?string}
+   * @default '.'
+   */
+  readonly baseDir?: string;
+  /**
+   * Install packages from a CodeArtifact repository.
+   *
+   * @readonly
+   * @type {?CodeArtifactConfig}
+   */
+  readonly codeArtifact?: CodeArtifactConfig;
+  /**
+   * Fail the install when the lock file is outdated.
+   *
+   * @readonly
+   * @type {?boolean}
+   * @default false
+   */
+  readonly frozenLockfile?: boolean;
+  /**
+   * Options for the CodeBuild project of the tests, ex. the synth CodeBuild defaults of the
+   * pipeline to run the tests with the same compute, environment variables and dependency cache.
+   *
+   * @readonly
+   * @type {?CodeBuildOptions}
+   */
+  readonly codeBuildDefaults?: CodeBuildOptions;
+}
+
+/**
+ * CodeBuild step for running the project tests and publishing the results to CodeBuild report
+ * groups. Make the Synth step depend on it to block synth when the tests fail.
+ *
+ * @export
+ * @class TestStep
+ * @typedef {TestStep}
+ * @extends {CodeBuildStep}
+ */
+export class TestStep extends CodeBuildStep {
+  /**
+   * The report group the test results are published to.
+   *
+   * @readonly
+   * @type {?ReportGroup}
+   */
+  readonly testReportGroup?: ReportGroup;
+  /**
+   * The report group the coverage is published to.
+   *
+   * @readonly
+   * @type {?ReportGroup}
+   */
+  readonly coverageReportGroup?: ReportGroup;
+
+  /**
+   * Creates an instance of TestStep.
+   *
+   * @constructor
+   * @param {Construct} scope - The scope to create the report groups in.
+   * @param {TestStepProps} props
+   */
+  constructor(scope: Construct, props: TestStepProps) {
+    const {
+      baseDir = '.',
+      reports = true,
+      junitReportFiles = ['test-reports/*.xml'],
+      coverageReportFile = 'coverage/clover.xml',
+      coverageReportFormat = CoverageReportFormat.CLOVERXML,
+      codeArtifact,
+      codeBuildDefaults = {},
+    } = props;
+
+    const testReportGroup = reports
+      ? new ReportGroup(scope, 'TestReports', { type: ReportGroupType.TEST })
+      : undefined;
+    const coverageReportGroup = reports
+      ? new ReportGroup(scope, 'CoverageReports', { type: ReportGroupType.CODE_COVERAGE })
+      : undefined;
+    const reportsSpec =
+      testReportGroup && coverageReportGroup
+        ? BuildSpec.fromObject({
+            reports: {
+              [testReportGroup.reportGroupArn]: {
+                files: junitReportFiles,
+                'base-directory': baseDir,
+                'file-format': 'JUNITXML',
+              },
+              [coverageReportGroup.reportGroupArn]: {
+                files: [coverageReportFile],
+                'base-directory': baseDir,
+                'file-format': coverageReportFormat,
+              },
+            },
+          })
+        : undefined;
+
+    super('Test', {
+      input: props.input,
+      commands: defineTestCommands(
+        baseDir,
+        props.commands,
+        undefined,
+        true,
+        codeArtifact,
+        props.frozenLockfile,
+      ),
+      partialBuildSpec: reportsSpec
+        ? codeBuildDefaults.partialBuildSpec
+          ? mergeBuildSpecs(codeBuildDefaults.partialBuildSpec, reportsSpec)
+          : reportsSpec
+        : codeBuildDefaults.partialBuildSpec,
+      buildEnvironment: codeBuildDefaults.buildEnvironment,
+      cache: codeBuildDefaults.cache,
+      vpc: codeBuildDefaults.vpc,
+      subnetSelection: codeBuildDefaults.subnetSelection,
+      securityGroups: codeBuildDefaults.securityGroups,
+      timeout: codeBuildDefaults.timeout,
+      fileSystemLocations: codeBuildDefaults.fileSystemLocations,
+      logging: codeBuildDefaults.logging,
+      rolePolicyStatements: [
+        ...(codeBuildDefaults.rolePolicy ?? []),
+        ...(testReportGroup && coverageReportGroup
+          ? [
+              new PolicyStatement({
+                actions: [
+                  'codebuild:CreateReport',
+                  'codebuild:UpdateReport',
+                  'codebuild:BatchPutTestCases',
+                  'codebuild:BatchPutCodeCoverages',
+                ],
+                resources: [testReportGroup.reportGroupArn, coverageReportGroup.reportGroupArn],
+              }),
+            ]
+          : []),
+        ...(codeArtifact ? codeArtifactReadStatements(codeArtifact) : []),
+      ],
+    });
+
+    this.testReportGroup = testReportGroup;
+    this.coverageReportGroup = coverageReportGroup;
+  }
+}
@@ -1,9 +1,118 @@
 import { Effect, PolicyStatement } from 'aws-cdk-lib/aws-iam';
-import { CodeBuildStep } from 'aws-cdk-lib/pipelines';
+import { IBucket } from 'aws-cdk-lib/aws-s3';
+import { CodeBuildStep, CodeBuildStepProps, IFileSetProducer } from 'aws-cdk-lib/pipelines';
+
+/**
+ * Properties for the TrimCloudAssemblyStep.
+ *
+ * @export
+ * @interface TrimCloudAssemblyStepProps
+ * @typedef {TrimCloudAssemblyStepProps}
+ */
+export interface TrimCloudAssemblyStepProps {
+  /**
+   * The artifact bucket of the pipeline, the trimmed cloud assembly is written back to it.
+   *
+   * @readonly
+   * @type {IBucket}
+   */
+  readonly artifactBucket: IBucket;
+  /**
+   * The cloud assembly produced by the Synth step.
+   *
+   * @readonly
+   * @type {IFileSetProducer}
+   */
+  readonly input: IFileSetProducer;
+  /**
+   * The name of the pipeline, used to scope the write access to the pipeline's artifacts.
+   *
+   * @readonly
+   * @type {string}
+   */
+  readonly pipelineName: string;
+  /**
+   * Patterns of the files and directories to strip from the cloud assembly, relative to its root.
+   *
+   * @readonly
+   * @type {?string[]}
+   * @default ['asset.*']
+   */
+  readonly stripPatterns?: string[];
+}
+
+/**
+ * The step of the deprecated positional constructor, it looks the artifact bucket up by the id of
+ * the pipeline stack.
+ *
+ * @param {string} stackId
+ * @param {string} pipelineName
+ * @returns {CodeBuildStepProps}
+ */
+function lookupBucketStepProps(stackId: string, pipelineName: string): CodeBuildStepProps {
+  // for grep'ing, truncate to 24 chars; if not already ends in dash, then add one
+  let bucketPrefix = stackId.substring(0, 24);
+  bucketPrefix = bucketPrefix.slice(-1) === '-' ? bucketPrefix : `${bucketPrefix}-`;
+
+  return {
+    rolePolicyStatements: [
+      new PolicyStatement({
+        effect: Effect.ALLOW,
+        actions: ['s3:ListAllMyBuckets', 's3:PutObject'],
+        resources: ['*'],
+      }),
+    ],
+    commands: [
+      `CLOUDASM_PATH=$(aws s3api list-buckets | grep '${bucketPrefix}' | awk '{print $2}' | sed 's/"//g' | sed 's/,//g')/${pipelineName.substring(
+        0,
+        20,
+      )}/Synth_Outp`,
+      "LATEST=$(aws s3 ls s3://$CLOUDASM_PATH/ | sort | tail -n 1 | awk '{print $4}')",
+      'aws s3 cp s3://$CLOUDASM_PATH/$LATEST .',
+      'unzip $LATEST -d tmp',
+      'cd tmp',
+      'rm -rf asset.*',
+      'zip -r -A $LATEST *',
+      'aws s3 cp $LATEST s3://$CLOUDASM_PATH/',
+    ],
+  };
+}
+
+/**
+ * The step that overwrites the Synth output in the artifact bucket it was given.
+ *
+ * @param {TrimCloudAssemblyStepProps} props
+ * @returns {CodeBuildStepProps}
+ */
+function artifactBucketStepProps(props: TrimCloudAssemblyStepProps): CodeBuildStepProps {
+  const { artifactBucket, pipelineName, stripPatterns = ['asset.*'] } = props;
+  return {
+    input: props.input,
+    rolePolicyStatements: [
+      // CodePipeline stores the artifacts under the pipeline name, truncated to 20 chars
+      new PolicyStatement({
+        effect: Effect.ALLOW,
+        actions: ['s3:PutObject'],
+        resources: [artifactBucket.arnForObjects(`${pipelineName.substring(0, 20)}/*`)],
+      }),
+    ],
+    commands: [
+      // the S3 ARN of the input artifact, ex. arn:aws:s3:::bucket/pipeline/Synth_Outp/abc123
+      'CLOUDASM_PATH=${CODEBUILD_SOURCE_VERSION#arn:*:s3:::}',
+      `rm -rf ${stripPatterns.join(' ')}`,
+      'zip -r -q -A /tmp/cloudasm.zip .',
+      'aws s3 cp /tmp/cloudasm.zip s3://$CLOUDASM_PATH',
+    ],
+  };
+}
 
 /**
  * CodeBuild step for trimming the cloud assembly to reducce the size of the artifact.
  *
+ * The step receives the Synth output as its input and overwrites that same artifact in the
+ * pipeline artifact bucket once the stripped files have been removed. The artifact bucket is
+ * expected to use the S3 managed encryption of pipelines without `crossAccountKeys`.
+ *
  * @export
  * @class TrimCloudAssemblyStep
  * @typedef {TrimCloudAssemblyStep}
@@ -11,38 +120,23 @@ import { CodeBuildStep } from 'aws-cdk-lib/pipelines';
  */
 export class TrimCloudAssemblyStep extends CodeBuildStep {
   /**
-   * Creates an instance of TrimCloudAssemblyStep.
+   * Creates an instance of TrimCloudAssemblyStep. Passing the `stackId` and `pipelineName` of the
+   * pipeline is deprecated, the step then looks up the artifact bucket by the stack id and needs
+   * access to every bucket.
    *
    * @constructor
-   * @param {string} stackId
-   * @param {string} pipelineName
+   * @param {(TrimCloudAssemblyStepProps | string)} props - The props, or the deprecated stack id.
+   * @param {?string} [pipelineName] - The pipeline name, with the deprecated stack id only.
    */
-  constructor(stackId: string, pipelineName: string) {
-    // for grep'ing, truncate to 24 chars; if not already ends in dash, then add one
-    let bucketPrefix = stackId.substring(0, 24);
-    bucketPrefix = bucketPrefix.slice(-1) === '-' ? bucketPrefix : `${bucketPrefix}-`;
-
-    super('TrimCloudAssemblyStep', {
-      rolePolicyStatements: [
-        new PolicyStatement({
-          effect: Effect.ALLOW,
-          actions: ['s3:ListAllMyBuckets', 's3:PutObject'],
-          resources: ['*'],
-        }),
-      ],
-      commands: [
-        `CLOUDASM_PATH=$(aws s3api list-buckets | grep '${bucketPrefix}' | awk '{print $2}' | sed 's/"//g' | sed 's/,//g')/${pipelineName.substring(
-          0,
-          20,
-        )}/Synth_Outp`,
-        "LATEST=$(aws s3 ls s3://$CLOUDASM_PATH/ | sort | tail -n 1 | awk '{print $4}')",
-        'aws s3 cp s3://$CLOUDASM_PATH/$LATEST .',
-        'unzip $LATEST -d tmp',
-        'cd tmp',
-        'rm -rf asset.*',
-        'zip -r -A $LATEST *',
-        'aws s3 cp $LATEST s3://$CLOUDASM_PATH/',
-      ],
-    });
+  constructor(props: TrimCloudAssemblyStepProps | string, pipelineName?: string) {
+    if (typeof props === 'string' && pipelineName === undefined) {
+      throw new Error('Improper configuration: the pipelineName is required with the stackId');
+    }
+    super(
+      'TrimCloudAssemblyStep',
+      typeof props === 'string'
+        ? lookupBucketStepProps(props, pipelineName!)
+        : artifactBucketStepProps(props),
+    );
   }
 }
@@ -1,5 +1,10 @@
 import { existsSync } from 'fs';
-import { dirname, join, parse, resolve } from 'path';
+import { basename, dirname, isAbsolute, join, parse, relative, resolve } from 'path';
+import { Aws } from 'aws-cdk-lib';
+import { Runtime, RuntimeFamily } from 'aws-cdk-lib/aws-lambda';
+import { EnvironmentPlaceholders } from 'aws-cdk-lib/cx-api';
+import { StackDeployment } from 'aws-cdk-lib/pipelines';
+import { CodeArtifactConfig, codeArtifactLoginCommands } from './code-artifact';
 import { findLockFile, PackageManager } from './package-manager';
 
 /**
@@ -10,6 +15,9 @@ import { findLockFile, PackageManager } from './package-manager';
  * @param {?string} [baseDir]
  * @param {?string} [assumeRoleArn]
  * @param {boolean} [installRequired=true]
+ * @param {?CodeArtifactConfig} [codeArtifact] - Log into a CodeArtifact repository before install.
+ * @param {boolean} [frozenLockfile=false] - Fail the install when the lock file is outdated.
+ * @param {string[]} [synthArgs=[]] - Additional arguments of `cdk synth`, ex. context.
  * @returns {{}}
  */
 export function defineSynthCommands(
@@ -17,23 +25,147 @@ export function defineSynthCommands(
   synthOutputDir?: string,
   depsLockFilePath?: string,
   installRequired: boolean = true,
+  codeArtifact?: CodeArtifactConfig,
+  frozenLockfile: boolean = false,
+  synthArgs: string[] = [],
 ) {
   let commands: string[] = [];
   const lockFilePath = findLockFile(depsLockFilePath);
-  const pkgManager = PackageManager.fromLockFile(lockFilePath);
+  const pkgManager = PackageManager.fromLockFile(lockFilePath, undefined, frozenLockfile);
   if (baseDir) {
     commands.push(`cd ${baseDir}`);
   }
   if (installRequired) {
+    if (codeArtifact) {
+      commands.push(...codeArtifactLoginCommands(codeArtifact, pkgManager));
+    }
     commands.push(pkgManager.installCommand.join(' '));
   }
   if (synthOutputDir) {
-    commands.push(pkgManager.runScript('cdk synth', `-o ${synthOutputDir}`));
+    commands.push(pkgManager.runScript('cdk synth', `-o ${synthOutputDir}`, ...synthArgs));
   } else {
-    commands.push(pkgManager.runScript('cdk synth'));
+    commands.push(pkgManager.runScript('cdk synth', ...synthArgs));
+  }
+  return commands;
+}
+
+/**
+ * Creates test commands based on input parameters.
+ *
+ * @private
+ * @param {?string} [baseDir]
+ * @param {?string[]} [testCommands]
+ * @param {?string} [depsLockFilePath]
+ * @param {boolean} [installRequired=true]
+ * @param {?CodeArtifactConfig} [codeArtifact] - Log into a CodeArtifact repository before install.
+ * @param {boolean} [frozenLockfile=false] - Fail the install when the lock file is outdated.
+ * @returns {{}}
+ */
+export function defineTestCommands(
+  baseDir?: string,
+  testCommands?: string[],
+  depsLockFilePath?: string,
+  installRequired: boolean = true,
+  codeArtifact?: CodeArtifactConfig,
+  frozenLockfile: boolean = false,
+) {
+  let commands: string[] = [];
+  const lockFilePath = findLockFile(depsLockFilePath);
+  const pkgManager = PackageManager.fromLockFile(lockFilePath, undefined, frozenLockfile);
+  if (baseDir) {
+    commands.push(`cd ${baseDir}`);
+  }
+  if (installRequired) {
+    if (codeArtifact) {
+      commands.push(...codeArtifactLoginCommands(codeArtifact, pkgManager));
+    }
+    commands.push(pkgManager.installCommand.join(' '));
   }
+  commands.push(...(testCommands ?? [pkgManager.runScript('test')]));
   return commands;
 }
+/**
+ * Creates the buildspec cache section for the dependencies of the project, keyed by the hash of
+ * its lock file so the cache is only restored for the same dependencies.
+ *
+ * @private
+ * @param {string} [baseDir='.']
+ * @param {?string} [depsLockFilePath]
+ * @returns {{ key: string; paths: string[] }}
+ */
+export function defineCacheSpec(
+  baseDir: string = '.',
+  depsLockFilePath?: string,
+): { key: string; paths: string[] } {
+  const lockFilePath = findLockFile(depsLockFilePath);
+  const pkgManager = PackageManager.fromLockFile(lockFilePath);
+  // the app is synthesized from the base directory, the build runs from the repository root
+  const lockFile = join(baseDir, relative(process.cwd(), lockFilePath));
+  return {
+    key: `${basename(lockFilePath)}-$(codebuild-hash-files ${lockFile})`,
+    paths: pkgManager.cacheDirectories.map(dir =>
+      isAbsolute(dir) ? `${dir}/**/*` : `${join(baseDir, dir)}/**/*`,
+    ),
+  };
+}
+
+// the characters of a branch name that are replaced in its slug, valid in JS and sed expressions
+const BRANCH_SLUG_REPLACED = '[^A-Za-z0-9-]';
+
+/**
+ * Convert a branch name into a value that is safe to use in stack ids, stage names and pipeline names.
+ *
+ * @private
+ * @param {string} branchName
+ * @returns {string}
+ */
+export function branchSlug(branchName: string): string {
+  return branchName.replace(new RegExp(BRANCH_SLUG_REPLACED, 'g'), '-');
+}
+
+/**
+ * A shell command that computes the `branchSlug` of a shell variable, ex. in a buildspec.
+ *
+ * @private
+ * @param {string} variable - The name of the variable holding the branch name.
+ * @returns {string}
+ */
+export function branchSlugCommand(variable: string): string {
+  return `$(echo "$${variable}" | sed 's/${BRANCH_SLUG_REPLACED}/-/g')`;
+}
+
+/**
+ * Check that a branch pattern only uses the `*` wildcard, the only syntax that EventBridge
+ * wildcard filters and `branchPatternMatches` share.
+ *
+ * @private
+ * @param {string} pattern
+ */
+export function validateBranchPattern(pattern: string): void {
+  if (/[?[\]{}\\!]/.test(pattern)) {
+    throw new Error(
+      `Improper configuration: the branch pattern '${pattern}' can only use the * wildcard`,
+    );
+  }
+}
+
+/**
+ * Match a branch name against a pattern the way EventBridge wildcard filters do, `*` matches any
+ * characters, including `/`.
+ *
+ * @private
+ * @param {string} branchName
+ * @param {string} pattern
+ * @returns {boolean}
+ */
+export function branchPatternMatches(branchName: string, pattern: string): boolean {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(branchName);
+}
+
 /**
  * Find a file by walking up parent directories
  */
@@ -67,3 +199,54 @@ export function findUpMultiple(names: string[], directory: string = process.cwd(
 
   return findUpMultiple(names, dirname(absoluteDirectory));
 }
+
+/**
+ * The environment of a stack, with the deploy and lookup roles resolved for the pipeline.
+ *
+ * @export
+ * @interface StackEnvironment
+ * @typedef {StackEnvironment}
+ */
+export interface StackEnvironment {
+  readonly stackName: string;
+  readonly region: string;
+  readonly deployRoleArn?: string;
+  readonly lookupRoleArn?: string;
+  readonly executionRoleArn?: string;
+}
+
+/**
+ * Resolve the environment placeholders of a stack deployment.
+ *
+ * @export
+ * @param {StackDeployment} stack
+ * @returns {StackEnvironment}
+ */
+export function stackEnvironment(stack: StackDeployment): StackEnvironment {
+  const replacePlaceholders = (value?: string): string | undefined =>
+    value &&
+    EnvironmentPlaceholders.replace(value, {
+      accountId: Aws.ACCOUNT_ID,
+      region: Aws.REGION,
+      partition: Aws.PARTITION,
+    });
+  const deployRoleArn = replacePlaceholders(stack.assumeRoleArn);
+  return {
+    stackName: stack.stackName,
+    region: replacePlaceholders(stack.region) ?? Aws.REGION,
+    deployRoleArn,
+    // the bootstrap roles only differ by name
+    lookupRoleArn: deployRoleArn?.replace('-deploy-role-', '-lookup-role-'),
+    executionRoleArn: replacePlaceholders(stack.executionRoleArn),
+  };
+}
+
+/**
+ * The runtime of the inline Lambda functions. Lambda blocks nodejs18.x, aws-cdk-lib 2.78 has no
+ * constant for its successor.
+ *
+ * @private
+ */
+export const NODEJS_INLINE_RUNTIME = new Runtime('nodejs20.x', RuntimeFamily.NODEJS, {
+  supportsInlineCode: true,
+});
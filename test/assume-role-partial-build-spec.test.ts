@@ -1,7 +1,79 @@
+import { App, Stack } from 'aws-cdk-lib';
+import { BuildSpec } from 'aws-cdk-lib/aws-codebuild';
 import { AssumeRolePartialBuildSpec } from '../src/assume-role-partial-build-spec';
 
 describe('AssumeRolePartialBuildSpec', () => {
+  const resolve = (buildSpec: BuildSpec) =>
+    JSON.parse(new Stack(new App(), 'test').resolve(buildSpec.toBuildSpec()));
+  const installCommands = (buildSpec: BuildSpec): string[] =>
+    resolve(buildSpec).phases.install.commands;
+
   it('should do the thing its meant to do', () => {
     new AssumeRolePartialBuildSpec('arn:aws:iam:::role');
   });
+
+  it('should export the credentials of a role arn without jq.', () => {
+    const commands = installCommands(
+      new AssumeRolePartialBuildSpec('arn:aws:iam:::role').partialBuildSpec,
+    );
+    expect(commands).toContain(
+      'aws configure set role_arn arn:aws:iam:::role --profile assume-role-0',
+    );
+    expect(commands).toContain('eval "$(aws configure export-credentials --format env)"');
+    expect(commands.join('\n')).not.toMatch('jq');
+  });
+
+  it('should chain roles through refreshable profiles.', () => {
+    const commands = installCommands(
+      new AssumeRolePartialBuildSpec({
+        roleArn: 'arn:aws:iam::123456789012:role/first',
+        externalId: 'my-external-id',
+        sessionName: 'deploy',
+        durationSeconds: 900,
+        roleChain: [{ roleArn: 'arn:aws:iam::210987654321:role/second' }],
+      }).partialBuildSpec,
+    );
+    expect(commands).toEqual(
+      expect.arrayContaining([
+        'aws configure set credential_source EcsContainer --profile assume-role-0',
+        'aws configure set external_id my-external-id --profile assume-role-0',
+        'aws configure set role_session_name deploy --profile assume-role-0',
+        'aws configure set duration_seconds 900 --profile assume-role-0',
+        'aws configure set source_profile assume-role-0 --profile assume-role-1',
+        'export AWS_PROFILE=assume-role-1',
+      ]),
+    );
+    expect(commands.join('\n')).not.toMatch('export-credentials');
+  });
+
+  it('should apply to the synth and asset publishing defaults.', () => {
+    const stack = new Stack(new App(), 'test');
+    const config = AssumeRolePartialBuildSpec.applyToPipelineConfig(
+      {
+        synthCodeBuildDefaults: {
+          partialBuildSpec: BuildSpec.fromObject({ env: { variables: { FOO: 'bar' } } }),
+        },
+      },
+      { roleArn: 'arn:aws:iam::123456789012:role/first' },
+    );
+    for (const options of [
+      config.synthCodeBuildDefaults,
+      config.assetPublishingCodeBuildDefaults,
+    ]) {
+      expect(installCommands(options!.partialBuildSpec!)).toContain(
+        'export AWS_PROFILE=assume-role-0',
+      );
+      expect(
+        options!.rolePolicy!.map(statement => stack.resolve(statement.toStatementJson())),
+      ).toEqual([
+        expect.objectContaining({
+          Action: 'sts:AssumeRole',
+          Resource: 'arn:aws:iam::123456789012:role/first',
+        }),
+      ]);
+    }
+    expect(resolve(config.synthCodeBuildDefaults!.partialBuildSpec!).env.variables).toEqual({
+      FOO: 'bar',
+    });
+  });
 });
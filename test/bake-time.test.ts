@@ -0,0 +1,99 @@
+import { App, Duration, Stack, Stage } from 'aws-cdk-lib';
+import { Bucket } from 'aws-cdk-lib/aws-s3';
+import { StageDeployment } from 'aws-cdk-lib/pipelines';
+import { BakeTimeStep, CaptureStackTemplatesStep } from '../src/bake-time';
+
+describe('BakeTime', () => {
+  const app = new App();
+  const pipelineStack = new Stack(app, 'pipeline', {
+    env: { account: '123456789012', region: 'us-east-1' },
+  });
+  const stage = new Stage(pipelineStack, 'dev', {
+    env: { account: '210987654321', region: 'eu-west-1' },
+  });
+  new Stack(stage, 'api');
+  new Stack(stage, 'web');
+  const props = {
+    stacks: StageDeployment.fromStage(stage).stacks,
+    artifactBucket: new Bucket(pipelineStack, 'ArtifactBucket'),
+    pipelineName: 'test-pipeline',
+    stageName: 'dev',
+  };
+
+  it('should keep the deployed templates of the stage.', () => {
+    const step = new CaptureStackTemplatesStep(props);
+    expect(step.commands).toHaveLength(2);
+    const command = JSON.stringify(pipelineStack.resolve(step.commands[0]));
+    expect(command).toMatch('aws s3 cp template.json');
+    expect(command).toMatch(
+      /cdk-hnb659fds-deploy-role-210987654321-eu-west-1.*get-template --stack-name dev-api --region eu-west-1/,
+    );
+  });
+
+  it('should watch the alarms and roll back in reverse order.', () => {
+    const step = new BakeTimeStep({
+      ...props,
+      duration: Duration.minutes(30),
+      alarmNames: ['api-errors'],
+      alarmTag: { key: 'bake', value: 'dev' },
+    });
+    expect(step.env).toEqual({ BAKE_SECONDS: '1800' });
+    const commands = JSON.stringify(pipelineStack.resolve(step.commands));
+    expect(commands).toMatch('ALARM_NAMES_0=\\"api-errors\\"');
+    expect(commands).toMatch('--tag-filters Key=bake,Values=dev');
+    expect(commands).toMatch('cdk-hnb659fds-lookup-role-210987654321-eu-west-1');
+    expect(commands.indexOf('Rolling back dev-web')).toBeLessThan(
+      commands.indexOf('Rolling back dev-api'),
+    );
+    expect(commands).toMatch('cdk-hnb659fds-cfn-exec-role-210987654321-eu-west-1');
+  });
+
+  it('should watch the alarms in each environment of the stage.', () => {
+    const regional = new Stage(pipelineStack, 'regional');
+    new Stack(regional, 'primary', { env: { account: '210987654321', region: 'eu-west-1' } });
+    new Stack(regional, 'replica', { env: { account: '210987654321', region: 'us-west-2' } });
+    new Stack(regional, 'edge', { env: { account: '210987654321', region: 'eu-west-1' } });
+    const step = new BakeTimeStep({
+      ...props,
+      stacks: StageDeployment.fromStage(regional).stacks,
+      stageName: 'regional',
+      duration: Duration.minutes(30),
+      alarmNames: ['api-errors'],
+    });
+    const commands = JSON.stringify(pipelineStack.resolve(step.commands));
+    expect(commands).not.toMatch('ALARM_NAMES_2');
+    expect(commands).toMatch(
+      /lookup-role-210987654321-eu-west-1.*describe-alarms --region eu-west-1 --alarm-names \$ALARM_NAMES_0/,
+    );
+    expect(commands).toMatch(
+      /lookup-role-210987654321-us-west-2.*describe-alarms --region us-west-2 --alarm-names \$ALARM_NAMES_1/,
+    );
+  });
+
+  it('should assume only the bootstrap roles.', () => {
+    const step = new BakeTimeStep({ ...props, duration: Duration.minutes(30) });
+    const [assumeRole] = step.rolePolicyStatements!.map(statement => statement.toStatementJson());
+    expect(assumeRole).toMatchObject({
+      Action: 'sts:AssumeRole',
+      Condition: {
+        StringEquals: { 'iam:ResourceTag/aws-cdk:bootstrap-role': ['lookup', 'deploy'] },
+      },
+    });
+  });
+
+  it('should not roll back when disabled.', () => {
+    const step = new BakeTimeStep({
+      ...props,
+      duration: Duration.minutes(30),
+      alarmNames: ['api-errors'],
+      rollback: false,
+    });
+    expect(JSON.stringify(step.commands)).not.toMatch('update-stack');
+  });
+
+  it('should not bake longer than CodeBuild can run.', () => {
+    expect(() => new BakeTimeStep({ ...props, duration: Duration.hours(8) })).toThrowError(
+      'cannot be longer than 7 hours',
+    );
+  });
+});
@@ -1,7 +1,15 @@
-import { App, Arn, Stack, StackProps } from 'aws-cdk-lib';
+import { App, Arn, Aspects, Stack, StackProps } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
 import { Code, Runtime, Tracing, Function } from 'aws-cdk-lib/aws-lambda';
 import { Construct } from 'constructs';
-import { ConfiguredStage, ConfiguredStageProps, BranchPipelines } from '../src';
+import {
+  ConfiguredStage,
+  ConfiguredStageProps,
+  BranchPipelines,
+  EPHEMERAL_BRANCH_CONTEXT_KEY,
+  PULL_REQUEST_CONTEXT_KEY,
+  WellArchitectedAspects,
+} from '../src';
 
 describe('BranchPipelines', () => {
   interface CoreConfig {
@@ -113,4 +121,358 @@ describe('BranchPipelines', () => {
       ),
     ).toBeDefined;
   });
+
+  const ephemeralBranchPipelines = () =>
+    new BranchPipelines<CoreConfig>(
+      new App({ context: { [EPHEMERAL_BRANCH_CONTEXT_KEY]: 'feature/my-feature' } }),
+      {
+        component: {
+          componentName: 'test',
+          componentType: TestStage,
+        },
+        deploymentBranches: [{ branchName: 'main', stages: [] }],
+        ephemeralBranches: {
+          branchPattern: 'feature/*',
+          template: {
+            branchName: 'template',
+            stages: [
+              {
+                name: 'dev',
+                config: {
+                  activeTracing: Tracing.ACTIVE,
+                },
+              },
+            ],
+          },
+        },
+        pipelineConfig: {},
+        repository: {
+          source: {
+            codeCommitArn: Arn.format({
+              partition: 'aws',
+              region: 'us-east-1',
+              account: '123456789012',
+              service: 'codecommit',
+              resource: 'my-repo',
+            }),
+          },
+        },
+        env: {
+          region: 'us-east-1',
+          account: '123456789012',
+        },
+      },
+    );
+
+  it('should create an ephemeral pipeline for a branch matching the pattern.', () => {
+    const branchPipelines = ephemeralBranchPipelines();
+
+    expect(branchPipelines.ephemeralBranchControllers).toHaveLength(1);
+    expect(branchPipelines.componentPipelineStacks.map(x => x.stackName)).toEqual([
+      'test-main-pipeline',
+      'test-feature-my-feature-pipeline',
+    ]);
+    expect(
+      branchPipelines.componentPipelineStacks[1].node.tryFindChild('feature-my-feature-dev'),
+    ).toBeDefined();
+  });
+
+  it('should synthesize the ephemeral branch in its own pipeline.', () => {
+    const [mainPipeline, ephemeralPipeline] = ephemeralBranchPipelines().componentPipelineStacks;
+    const synthCommands = (stack: Stack) =>
+      Object.values(Template.fromStack(stack).findResources('AWS::CodeBuild::Project'))
+        .map(project => JSON.parse(project.Properties.Source.BuildSpec))
+        .flatMap(buildSpec => buildSpec.phases?.build?.commands ?? [])
+        .filter((command: string) => command.includes('cdk synth'));
+
+    expect(synthCommands(ephemeralPipeline)).toEqual([
+      expect.stringContaining(`-c ${EPHEMERAL_BRANCH_CONTEXT_KEY}=feature/my-feature`),
+    ]);
+    expect(synthCommands(mainPipeline)).toEqual([
+      expect.not.stringContaining(EPHEMERAL_BRANCH_CONTEXT_KEY),
+    ]);
+  });
+
+  it('should create a pipeline per component.', () => {
+    const app = new App();
+    const branchPipelines = new BranchPipelines<CoreConfig>(app, {
+      components: [
+        { componentName: 'api', componentType: TestStage, baseDir: 'packages/api' },
+        { componentName: 'web', componentType: TestStage, baseDir: 'packages/web' },
+      ],
+      deploymentBranches: [
+        {
+          branchName: 'main',
+          stages: [{ name: 'dev', config: { activeTracing: Tracing.ACTIVE } }],
+        },
+      ],
+      pipelineConfig: {},
+      repository: {
+        source: {
+          codeCommitArn: Arn.format({
+            partition: 'aws',
+            region: 'us-east-1',
+            account: '123456789012',
+            service: 'codecommit',
+            resource: 'my-repo',
+          }),
+        },
+      },
+      env: {
+        region: 'us-east-1',
+        account: '123456789012',
+      },
+    });
+
+    expect(branchPipelines.componentPipelineStacks.map(stack => stack.stackName)).toEqual([
+      'api-main-pipeline',
+      'web-main-pipeline',
+    ]);
+  });
+
+  it('should throw an error when no component is configured.', () => {
+    expect(
+      () =>
+        new BranchPipelines<CoreConfig>(new App(), {
+          deploymentBranches: [],
+          pipelineConfig: {},
+          repository: { source: { owner: 'test/test', options: { connectionArn: 'arn' } } },
+        }),
+    ).toThrowError('Improper configuration: at least one component must be specified');
+  });
+
+  it('should promote the cloud assembly between branch pipelines.', () => {
+    const props = {
+      component: {
+        componentName: 'test',
+        componentType: TestStage,
+      },
+      deploymentBranches: [
+        {
+          branchName: 'main',
+          stages: [{ name: 'dev', config: { activeTracing: Tracing.ACTIVE } }],
+        },
+        {
+          branchName: 'prod',
+          promoteFrom: 'main',
+          stages: [{ name: 'prd', config: { activeTracing: Tracing.ACTIVE } }],
+        },
+      ],
+      pipelineConfig: {},
+      repository: {
+        source: {
+          codeCommitArn: Arn.format({
+            partition: 'aws',
+            region: 'us-east-1',
+            account: '123456789012',
+            service: 'codecommit',
+            resource: 'my-repo',
+          }),
+        },
+      },
+      env: {
+        region: 'us-east-1',
+        account: '123456789012',
+      },
+    };
+    const branchPipelines = new BranchPipelines<CoreConfig>(new App(), props);
+    expect(branchPipelines.promotionBuckets).toHaveLength(1);
+
+    const [upstream, downstream] = branchPipelines.componentPipelineStacks.map(stack =>
+      Template.fromStack(stack),
+    );
+    upstream.hasResourceProperties('AWS::CodePipeline::Pipeline', {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: 'dev',
+          Actions: Match.arrayWith([
+            Match.objectLike({ Name: 'UploadPromotionCandidate', RunOrder: 1 }),
+            Match.objectLike({ Name: 'TrimCloudAssemblyStep', RunOrder: 2 }),
+            Match.objectLike({ Name: 'PromoteCloudAssembly' }),
+          ]),
+        }),
+      ]),
+    });
+    downstream.hasResourceProperties('AWS::CodePipeline::Pipeline', {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: 'Source',
+          Actions: [
+            Match.objectLike({
+              ActionTypeId: Match.objectLike({ Provider: 'S3' }),
+              Configuration: Match.objectLike({ S3ObjectKey: 'test/main/latest.zip' }),
+            }),
+          ],
+        }),
+      ]),
+    });
+
+    expect(
+      () =>
+        new BranchPipelines<CoreConfig>(new App(), {
+          ...props,
+          deploymentBranches: [{ ...props.deploymentBranches[1], promoteFrom: 'missing' }],
+        }),
+    ).toThrowError("cannot promote from 'missing', it is not a deployment branch");
+  });
+
+  it('should create a dashboard per pipeline and for every pipeline.', () => {
+    const branchPipelines = new BranchPipelines<CoreConfig>(new App(), {
+      components: [
+        { componentName: 'api', componentType: TestStage },
+        { componentName: 'web', componentType: TestStage },
+      ],
+      deploymentBranches: [
+        {
+          branchName: 'main',
+          stages: [{ name: 'dev', config: { activeTracing: Tracing.ACTIVE } }],
+        },
+      ],
+      pipelineConfig: { dashboard: true },
+      repository: {
+        source: {
+          codeCommitArn: Arn.format({
+            partition: 'aws',
+            region: 'us-east-1',
+            account: '123456789012',
+            service: 'codecommit',
+            resource: 'my-repo',
+          }),
+        },
+      },
+      env: {
+        region: 'us-east-1',
+        account: '123456789012',
+      },
+    });
+
+    const [api] = branchPipelines.componentPipelineStacks;
+    expect(api.pipelineMetrics?.componentName).toEqual('api');
+    Template.fromStack(api).hasResourceProperties('AWS::CloudWatch::Dashboard', {
+      DashboardName: 'api-main-pipeline',
+    });
+    expect(branchPipelines.dashboard).toBeDefined();
+    expect(Stack.of(branchPipelines.dashboard!).node.id).toEqual('api-web-pipelines-dashboard');
+    Template.fromStack(Stack.of(branchPipelines.dashboard!)).resourceCountIs(
+      'AWS::CloudWatch::Dashboard',
+      1,
+    );
+  });
+
+  it('should create a dashboard for each BranchPipelines of an app.', () => {
+    const app = new App();
+    const props = {
+      deploymentBranches: [{ branchName: 'main', stages: [] }],
+      pipelineConfig: { dashboard: true },
+      repository: {
+        source: {
+          codeCommitArn: Arn.format({
+            partition: 'aws',
+            region: 'us-east-1',
+            account: '123456789012',
+            service: 'codecommit',
+            resource: 'my-repo',
+          }),
+        },
+      },
+      env: {
+        region: 'us-east-1',
+        account: '123456789012',
+      },
+    };
+    const api = new BranchPipelines<CoreConfig>(app, {
+      ...props,
+      component: { componentName: 'api', componentType: TestStage },
+    });
+    const web = new BranchPipelines<CoreConfig>(app, {
+      ...props,
+      component: { componentName: 'web', componentType: TestStage },
+    });
+    expect(Stack.of(api.dashboard!)).not.toBe(Stack.of(web.dashboard!));
+  });
+
+  it('should report the config errors of every stage.', () => {
+    const validateConfig = {
+      validate: (config: CoreConfig) =>
+        Object.values(Tracing).includes(config.activeTracing)
+          ? []
+          : [`activeTracing must be one of ${Object.values(Tracing).join(', ')}`],
+    };
+    let message = '';
+    try {
+      new BranchPipelines<CoreConfig>(new App(), {
+        component: { componentName: 'test', componentType: TestStage },
+        deploymentBranches: [
+          {
+            branchName: 'main',
+            stages: [{ name: 'dev', config: { activeTracing: 'On' as Tracing } }],
+            waves: [
+              {
+                name: 'prod',
+                stages: [
+                  { name: 'prod-us', config: { activeTracing: Tracing.ACTIVE } },
+                  { name: 'prod-eu', config: { activeTracing: 'Off' as Tracing } },
+                ],
+              },
+            ],
+          },
+        ],
+        pipelineConfig: {},
+        repository: { source: { owner: 'test/test', options: { connectionArn: 'arn' } } },
+        validateConfig,
+      });
+    } catch (e) {
+      message = (e as Error).message;
+    }
+    expect(message).toMatch('Improper configuration: invalid stage config');
+    expect(message).toMatch("branch 'main', stage 'dev': activeTracing must be one of");
+    expect(message).toMatch("branch 'main', stage 'prod-eu': activeTracing must be one of");
+    expect(message).not.toMatch('prod-us');
+  });
+
+  it('should layer the component, branch and stage config.', () => {
+    const branchPipelines = new BranchPipelines<CoreConfig>(new App(), {
+      component: {
+        componentName: 'test',
+        componentType: TestStage,
+        baseConfig: { activeTracing: Tracing.DISABLED },
+      },
+      deploymentBranches: [
+        {
+          branchName: 'main',
+          config: { activeTracing: Tracing.PASS_THROUGH },
+          stages: [
+            { name: 'dev', config: {} as CoreConfig },
+            { name: 'prod', config: { activeTracing: Tracing.ACTIVE } },
+          ],
+        },
+      ],
+      pipelineConfig: {},
+      repository: { source: { owner: 'test/test', options: { connectionArn: 'arn' } } },
+    });
+    const [pipelineStack] = branchPipelines.componentPipelineStacks;
+    const stage = (name: string) => pipelineStack.node.findChild(name) as TestStage;
+    expect(stage('dev').get('activeTracing')).toEqual(Tracing.PASS_THROUGH);
+    expect(stage('prod').get('activeTracing')).toEqual(Tracing.ACTIVE);
+  });
+
+  it('should validate pull requests with the well-architected checks.', () => {
+    const app = new App({ context: { [PULL_REQUEST_CONTEXT_KEY]: 'true' } });
+    const branchPipelines = new BranchPipelines<CoreConfig>(app, {
+      component: { componentName: 'test', componentType: TestStage },
+      deploymentBranches: [
+        {
+          branchName: 'main',
+          stages: [{ name: 'dev', config: { activeTracing: Tracing.ACTIVE } }],
+        },
+      ],
+      pipelineConfig: {},
+      repository: { source: { owner: 'test/test', options: { connectionArn: 'arn' } } },
+      pullRequestValidation: {},
+    });
+    expect(branchPipelines.pullRequestValidationStacks.map(stack => stack.stackName)).toEqual([
+      'test-pull-requests',
+    ]);
+    expect(Aspects.of(app).all.some(aspect => aspect instanceof WellArchitectedAspects)).toBe(true);
+  });
 });
@@ -0,0 +1,150 @@
+import { App, Stack, Stage } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { Repository } from 'aws-cdk-lib/aws-codecommit';
+import { CodePipeline, CodePipelineSource, FileSet, ShellStep } from 'aws-cdk-lib/pipelines';
+import { ChangeRiskApprovalStep, DEFAULT_CDK_CLI_VERSION } from '../src/change-risk-approval-step';
+
+describe('ChangeRiskApprovalStep', () => {
+  const app = new App();
+  const scope = new Stack(app, 'pipeline', {
+    env: { region: 'us-east-1', account: '123456789012' },
+  });
+  const stage = new Stage(scope, 'dev');
+
+  const commandsOf = (step: ChangeRiskApprovalStep) => step.commands.join('\n');
+
+  it('should classify the changes of the stage.', () => {
+    const step = new ChangeRiskApprovalStep(scope, {
+      input: new FileSet('assembly'),
+      stage,
+      pipelineName: 'test-main',
+      pipelineStageName: 'dev',
+      approvalActionName: 'ApproveChanges',
+      statefulResourceTypes: ['AWS::RDS::DBInstance', 'AWS::S3::Bucket'],
+    });
+    const commands = commandsOf(step);
+
+    expect(commands).toContain('cdk diff -a . --no-color "pipeline/dev/*"');
+    expect(commands).toContain('--security-only --fail');
+    expect(commands).toContain('replacement');
+    expect(commands).toContain('(AWS::RDS::DBInstance|AWS::S3::Bucket)');
+    expect(commands).not.toContain('sns publish');
+    expect(step.installCommands).toEqual([`npm install -g aws-cdk@${DEFAULT_CDK_CLI_VERSION}`]);
+    expect(step.steps).toEqual([step, step.approval, step.autoApproval]);
+  });
+
+  it('should only approve once the approval of the execution is requested.', () => {
+    const step = new ChangeRiskApprovalStep(scope, {
+      input: new FileSet('assembly'),
+      stage,
+      pipelineName: 'test-main',
+      pipelineStageName: 'dev',
+      approvalActionName: 'ApproveChanges',
+    });
+    const commands = step.autoApproval.commands.join('\n');
+
+    expect(commands).toContain('if [ "$RISKS" != "none" ]');
+    expect(commands).toContain('--filter pipelineExecutionId="$EXECUTION_ID"');
+    expect(commands).toMatch(/InProgress\) break ;; Succeeded\|Failed\|Abandoned\)/);
+    expect(commands).toContain('WAIT_END=$(( $(date +%s) + 600 ))');
+    expect(commands).toContain(
+      'echo "$ACTION_NAME was not requested within 600 seconds, leaving it pending for manual approval"; exit 1',
+    );
+    expect(commands).toContain('put-approval-result');
+    expect(step.autoApproval.env).toMatchObject({
+      PIPELINE_NAME: 'test-main',
+      STAGE_NAME: 'dev',
+      ACTION_NAME: 'ApproveChanges',
+      EXECUTION_ID: '#{codepipeline.PipelineExecutionId}',
+    });
+  });
+
+  it('should only run the enabled checks and notify when risky.', () => {
+    const step = new ChangeRiskApprovalStep(scope, {
+      input: new FileSet('assembly'),
+      stage,
+      pipelineName: 'test-main',
+      pipelineStageName: 'dev',
+      approvalActionName: 'ApproveChanges',
+      detectSecurityBroadening: false,
+      detectReplacements: false,
+      statefulResourceTypes: [],
+      notificationTopicArn: 'arn:aws:sns:us-east-1:123456789012:approvals',
+    });
+    const commands = commandsOf(step);
+
+    expect(commands).not.toContain('--security-only');
+    expect(commands).not.toContain('replacement"');
+    expect(commands).not.toContain('stateful-resource-deletion');
+    expect(commands).toContain(
+      'aws sns publish --topic-arn arn:aws:sns:us-east-1:123456789012:approvals',
+    );
+  });
+
+  it('should approve the approval of its stage in the pipeline.', () => {
+    const pipelineStack = new Stack(new App(), 'pipeline', {
+      env: { region: 'us-east-1', account: '123456789012' },
+    });
+    const pipeline = new CodePipeline(pipelineStack, 'Pipeline', {
+      pipelineName: 'test-main',
+      synth: new ShellStep('Synth', {
+        input: CodePipelineSource.codeCommit(
+          Repository.fromRepositoryName(pipelineStack, 'Repository', 'my-repo'),
+          'main',
+        ),
+        commands: ['npx cdk synth'],
+      }),
+    });
+    const dev = new Stage(pipelineStack, 'dev');
+    new Stack(dev, 'api');
+    const step = new ChangeRiskApprovalStep(pipelineStack, {
+      input: pipeline.cloudAssemblyFileSet,
+      stage: dev,
+      pipelineName: 'test-main',
+      pipelineStageName: 'dev',
+      approvalActionName: 'ApproveChanges',
+      cdkCliVersion: '2.100.0',
+    });
+    pipeline.addStage(dev, { pre: step.steps });
+
+    expect(step.installCommands).toEqual(['npm install -g aws-cdk@2.100.0']);
+    const template = Template.fromStack(pipelineStack);
+    template.hasResourceProperties('AWS::CodePipeline::Pipeline', {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: 'dev',
+          Actions: Match.arrayWith([
+            Match.objectLike({ Name: 'ChangeRiskCheck', RunOrder: 1 }),
+            Match.objectLike({
+              Name: 'ApproveChanges',
+              ActionTypeId: Match.objectLike({ Category: 'Approval', Provider: 'Manual' }),
+              RunOrder: 2,
+            }),
+            Match.objectLike({ Name: 'AutoApproveChanges', RunOrder: 2 }),
+          ]),
+        }),
+      ]),
+    });
+    const pipelineArn = (resource: string) => ({
+      'Fn::Join': [
+        '',
+        ['arn:', { Ref: 'AWS::Partition' }, `:codepipeline:us-east-1:123456789012:${resource}`],
+      ],
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          {
+            Action: [
+              'codepipeline:GetPipelineState',
+              'codepipeline:ListActionExecutions',
+              'codepipeline:PutApprovalResult',
+            ],
+            Effect: 'Allow',
+            Resource: [pipelineArn('test-main'), pipelineArn('test-main/*')],
+          },
+        ]),
+      },
+    });
+  });
+});
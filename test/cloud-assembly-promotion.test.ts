@@ -0,0 +1,43 @@
+import { App, Stack } from 'aws-cdk-lib';
+import { Bucket } from 'aws-cdk-lib/aws-s3';
+import { FileSet } from 'aws-cdk-lib/pipelines';
+import {
+  CloudAssemblyCandidateStep,
+  PromoteCloudAssemblyStep,
+  PromotedSynthStep,
+  promotedCloudAssemblyKey,
+} from '../src/cloud-assembly-promotion';
+
+describe('CloudAssemblyPromotion', () => {
+  const stack = new Stack(new App(), 'test');
+  const promotionBucket = new Bucket(stack, 'Bucket');
+
+  it('should key the promoted cloud assembly by component and branch.', () => {
+    expect(promotedCloudAssemblyKey('api', 'release/1.0')).toEqual('api/release-1-0/latest.zip');
+  });
+
+  it('should upload the candidate and promote it by commit.', () => {
+    const props = { promotionBucket, componentName: 'api', branchName: 'main', commitId: 'abc' };
+    const candidate = new CloudAssemblyCandidateStep({ ...props, input: new FileSet('assembly') });
+    const promote = new PromoteCloudAssemblyStep(props);
+
+    expect(candidate.env.COMMIT_ID).toEqual('abc');
+    expect(candidate.commands.join('\n')).toMatch(/api\/main\/\$COMMIT_ID\/assembly\.zip/);
+    expect(promote.commands.join('\n')).toMatch(/api\/main\/\$COMMIT_ID\/promotion\.json/);
+    expect(promote.commands.join('\n')).toMatch(/api\/main\/latest\.zip/);
+    expect(promote.env.EXECUTION_ID).toEqual('#{codepipeline.PipelineExecutionId}');
+    expect(promote.commands.join('\n')).toMatch('pipelineExecution: process.env.EXECUTION_ID');
+  });
+
+  it('should record the promotion of the cloud assembly.', () => {
+    const synth = new PromotedSynthStep({
+      input: new FileSet('promoted'),
+      promotionBucket,
+      componentName: 'api',
+      promoteFrom: 'main',
+      branchName: 'prod',
+    });
+    expect(synth.commands.join('\n')).toMatch(/api\/main\/\$COMMIT_ID\/promoted-to-prod\.json/);
+    expect(synth.primaryOutput).toBeDefined();
+  });
+});
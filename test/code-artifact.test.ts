@@ -0,0 +1,49 @@
+import { App, Stack } from 'aws-cdk-lib';
+import { codeArtifactLoginCommands, codeArtifactReadStatements } from '../src/code-artifact';
+import { LockFile, PackageManager } from '../src/package-manager';
+
+describe('CodeArtifact', () => {
+  const repositoryArn = 'arn:aws:codeartifact:us-east-1:123456789012:repository/my-domain/my-repo';
+
+  it('should log into the repository.', () => {
+    expect(codeArtifactLoginCommands({ repositoryArn, namespace: '@my-org' })).toEqual([
+      'aws codeartifact login --tool npm --domain my-domain --domain-owner 123456789012 --repository my-repo --region us-east-1 --namespace @my-org',
+    ]);
+  });
+
+  it('should configure Yarn Berry through yarn config.', () => {
+    const yarnBerry = new PackageManager({
+      lockFile: LockFile.YARN,
+      installCommand: ['yarn', 'install', '--immutable'],
+      runCommand: ['yarn', 'run'],
+      scriptCommand: ['yarn'],
+      yarnBerry: true,
+    });
+    const commands = codeArtifactLoginCommands({ repositoryArn, namespace: '@my-org' }, yarnBerry);
+    expect(commands).toContain(
+      'yarn config set npmScopes.my-org.npmAuthToken "$CODEARTIFACT_AUTH_TOKEN"',
+    );
+    expect(commands.join('\n')).not.toMatch('aws codeartifact login');
+  });
+
+  it('should grant access to the domain token and the repository.', () => {
+    const stack = new Stack(new App(), 'test');
+    const statements = codeArtifactReadStatements({ repositoryArn }).map(statement =>
+      stack.resolve(statement.toStatementJson()),
+    );
+    expect(statements).toEqual([
+      expect.objectContaining({
+        Action: 'codeartifact:GetAuthorizationToken',
+        Resource: 'arn:aws:codeartifact:us-east-1:123456789012:domain/my-domain',
+      }),
+      expect.objectContaining({ Resource: repositoryArn }),
+      expect.objectContaining({ Action: 'sts:GetServiceBearerToken', Resource: '*' }),
+    ]);
+  });
+
+  it('should throw an error for an invalid repository arn.', () => {
+    expect(() =>
+      codeArtifactLoginCommands({ repositoryArn: 'arn:aws:s3:::my-bucket' }),
+    ).toThrowError("'arn:aws:s3:::my-bucket' is not a CodeArtifact repository arn");
+  });
+});
@@ -1,7 +1,19 @@
 import { Arn, Stack } from 'aws-cdk-lib';
-import { CodeSource } from '../src';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { CodePipeline, ShellStep } from 'aws-cdk-lib/pipelines';
+import { CodeSource, SourceType } from '../src';
 
 describe('CodeSource', () => {
+  // the source action of a pipeline built from the source
+  const expectSourceAction = (stack: Stack, source: CodeSource, action: object) => {
+    new CodePipeline(stack, 'Pipeline', {
+      synth: new ShellStep('Synth', { input: source.source, commands: ['npx cdk synth'] }),
+    });
+    Template.fromStack(stack).hasResourceProperties('AWS::CodePipeline::Pipeline', {
+      Stages: Match.arrayWith([{ Name: 'Source', Actions: [Match.objectLike(action)] }]),
+    });
+  };
+
   it('should set up CodeCommit source when arn supplied.', () => {
     const stack = new Stack();
     const source = new CodeSource(stack, 'test', {
@@ -35,6 +47,72 @@ describe('CodeSource', () => {
     expect(source.source).not.toBeNull;
   });
 
+  it.each([SourceType.BITBUCKET, SourceType.GITLAB] as const)(
+    'should set up %s source when configured.',
+    type => {
+      const stack = new Stack();
+      const connectionArn = Arn.format(
+        {
+          service: 'codestar-connections',
+          resource: 'connection',
+          resourceName: '3dee99b9-172f-4ebe-a257-722365a39557',
+        },
+        stack,
+      );
+      const source = new CodeSource(stack, 'test', {
+        type,
+        repoString: 'test/test',
+        options: { connectionArn },
+      });
+      expectSourceAction(stack, source, {
+        ActionTypeId: Match.objectLike({ Provider: 'CodeStarSourceConnection' }),
+        Configuration: Match.objectLike({
+          ConnectionArn: stack.resolve(connectionArn),
+          FullRepositoryId: 'test/test',
+          BranchName: 'test',
+        }),
+      });
+    },
+  );
+
+  it('should set up S3 source when configured.', () => {
+    const stack = new Stack();
+    const source = new CodeSource(stack, 'test', {
+      type: SourceType.S3,
+      bucketName: 'my-bucket',
+      objectKey: 'source.zip',
+    });
+    expectSourceAction(stack, source, {
+      ActionTypeId: Match.objectLike({ Provider: 'S3' }),
+      Configuration: Match.objectLike({ S3Bucket: 'my-bucket', S3ObjectKey: 'source.zip' }),
+    });
+  });
+
+  it('should set up ECR source when configured.', () => {
+    const stack = new Stack();
+    const source = new CodeSource(stack, 'test', {
+      type: SourceType.ECR,
+      repositoryName: 'my-repo',
+      options: { imageTag: 'release' },
+    });
+    expectSourceAction(stack, source, {
+      ActionTypeId: Match.objectLike({ Provider: 'ECR' }),
+      Configuration: { RepositoryName: 'my-repo', ImageTag: 'release' },
+    });
+  });
+
+  it('should name the missing property when configuration is incomplete.', () => {
+    expect(
+      () =>
+        new CodeSource(new Stack(), 'test', {
+          type: SourceType.S3,
+          bucketName: 'my-bucket',
+        } as any),
+    ).toThrowError(
+      "Improper configuration: S3 source configuration is missing required property 'objectKey'",
+    );
+  });
+
   it('should throw an error when configuration is invalid.', () => {
     expect(
       () =>
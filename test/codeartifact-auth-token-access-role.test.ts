@@ -12,11 +12,26 @@ class GivenStack extends Stack {
 }
 describe('CodeArtifactAuthTokenAccessRole', () => {
   it('should do the thing its meant to do', () => {
-    const arn = 'arn:aws:codeartifact:::repository/my-repo';
+    const arn = 'arn:aws:codeartifact:us-east-1:123456789012:repository/my-domain/my-repo';
     const stack = new GivenStack(arn);
     const template = Template.fromStack(stack);
     template.hasResource('AWS::IAM::Role', {
-      Properties: { Policies: [{ PolicyDocument: { Statement: [{ Resource: arn }] } }] },
+      Properties: {
+        Policies: [
+          {
+            PolicyDocument: {
+              Statement: [
+                {
+                  Action: 'codeartifact:GetAuthorizationToken',
+                  Resource: 'arn:aws:codeartifact:us-east-1:123456789012:domain/my-domain',
+                },
+                { Resource: arn },
+                { Action: 'sts:GetServiceBearerToken', Resource: '*' },
+              ],
+            },
+          },
+        ],
+      },
     });
   });
 });
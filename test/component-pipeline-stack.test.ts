@@ -1,6 +1,13 @@
-import { App, Arn, Stack, Stage } from 'aws-cdk-lib';
-import { Template } from 'aws-cdk-lib/assertions';
-import { ComponentPipelineStack } from '../src/component-pipeline-stack';
+import { App, Arn, CfnOutput, Duration, Stack, Stage, StageProps } from 'aws-cdk-lib';
+import { Annotations, Match, Template } from 'aws-cdk-lib/assertions';
+import { BuildEnvironmentVariableType } from 'aws-cdk-lib/aws-codebuild';
+import { Construct } from 'constructs';
+import {
+  BranchPipelinesTag,
+  ComponentPipelineStack,
+  ComponentPipelineStackProps,
+} from '../src/component-pipeline-stack';
+import { PipelineNotificationEvents } from '../src/pipeline-event-notification-rule';
 
 describe('ComponentPipelineStack', () => {
   class TestStage extends Stage {
@@ -9,16 +16,23 @@ describe('ComponentPipelineStack', () => {
       new Stack(this, 'testStack', {});
     }
   }
-  it('should synth without error.', () => {
-    const pipeline = new ComponentPipelineStack(new App(), 'test', {
+  class NamedTestStage extends Stage {
+    public constructor(scope: Construct, id: string, props: StageProps) {
+      super(scope, id, props);
+      const stack = new Stack(this, 'testStack', {});
+      new CfnOutput(stack, 'endpoint', { value: 'https://example.com' });
+    }
+  }
+  // a pipeline of the dev stage of a NamedTestStage component, from a CodeCommit repository
+  const pipelineStack = (overrides: Partial<ComponentPipelineStackProps<any, any>> = {}) =>
+    new ComponentPipelineStack(new App(), 'test', {
       branch: {
         branchName: 'test',
-        staticPipelineIdentifier: 'test',
-        stages: [{ name: 'test', config: {} }],
+        stages: [{ name: 'dev', config: {} }],
       },
       component: {
         componentName: 'test',
-        componentType: TestStage,
+        componentType: NamedTestStage,
       },
       pipelineConfig: {},
       repository: {
@@ -36,8 +50,469 @@ describe('ComponentPipelineStack', () => {
         region: 'us-east-1',
         account: '123456789012',
       },
+      ...overrides,
+    });
+
+  it('should synth without error.', () => {
+    const pipeline = pipelineStack({
+      branch: {
+        branchName: 'test',
+        staticPipelineIdentifier: 'test',
+        stages: [{ name: 'test', config: {} }],
+      },
+      component: {
+        componentName: 'test',
+        componentType: TestStage,
+      },
     });
     const template = Template.fromStack(pipeline);
     template.hasResource('AWS::CodePipeline::Pipeline', {});
   });
+
+  it('should deploy the stages of a wave in parallel.', () => {
+    const pipeline = pipelineStack({
+      branch: {
+        branchName: 'test',
+        stages: [{ name: 'dev', config: {} }],
+        waves: [
+          {
+            name: 'regional',
+            manualApproval: true,
+            stages: [
+              { name: 'east', config: {} },
+              { name: 'west', config: {} },
+            ],
+          },
+        ],
+      },
+    });
+    const template = Template.fromStack(pipeline);
+    template.hasResourceProperties('AWS::CodePipeline::Pipeline', {
+      Stages: Match.arrayWith([
+        Match.objectLike({ Name: 'dev' }),
+        Match.objectLike({
+          Name: 'regional',
+          Actions: Match.arrayWith([
+            Match.objectLike({ Name: 'Promote_To_regional', RunOrder: 1 }),
+            Match.objectLike({ Name: 'east.testStack.Prepare', RunOrder: 2 }),
+            Match.objectLike({ Name: 'west.testStack.Prepare', RunOrder: 2 }),
+          ]),
+        }),
+      ]),
+    });
+  });
+
+  it('should run smoke tests with CfnOutputs after the stage is deployed.', () => {
+    const branch = {
+      branchName: 'test',
+      stages: [
+        {
+          name: 'dev',
+          config: {},
+          smokeTests: [
+            {
+              name: 'SmokeTest',
+              commands: ['curl -f $ENDPOINT'],
+              envFromCfnOutputs: { ENDPOINT: 'testStack/endpoint' },
+            },
+          ],
+        },
+      ],
+    };
+    const template = Template.fromStack(pipelineStack({ branch }));
+    template.hasResourceProperties('AWS::CodePipeline::Pipeline', {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: 'dev',
+          Actions: Match.arrayWith([
+            Match.objectLike({
+              Name: 'SmokeTest',
+              Configuration: Match.objectLike({
+                EnvironmentVariables: Match.stringLikeRegexp('ENDPOINT.*testStack\\w*\\.endpoint'),
+              }),
+            }),
+          ]),
+        }),
+      ]),
+    });
+
+    branch.stages[0].smokeTests[0].envFromCfnOutputs.ENDPOINT = 'testStack/missing';
+    expect(() => pipelineStack({ branch })).toThrowError(
+      /does not have a CfnOutput at 'testStack\/missing'/,
+    );
+  });
+
+  it('should run the tests before synth.', () => {
+    const pipeline = pipelineStack({
+      pipelineConfig: {
+        testStep: {},
+        cache: {},
+        synthEnv: { STAGE: { value: 'dev' } },
+      },
+    });
+    const template = Template.fromStack(pipeline);
+    template.resourceCountIs('AWS::CodeBuild::ReportGroup', 2);
+    template.hasResourceProperties('AWS::CodePipeline::Pipeline', {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: 'Build',
+          Actions: [
+            Match.objectLike({ Name: 'Test', RunOrder: 1 }),
+            Match.objectLike({ Name: 'Synth', RunOrder: 2 }),
+          ],
+        }),
+      ]),
+    });
+    // the tests run with the synth defaults
+    const [testProject] = Object.values(template.findResources('AWS::CodeBuild::Project')).filter(
+      project => JSON.stringify(project).includes('JUNITXML'),
+    );
+    expect(testProject.Properties.Environment).toMatchObject({
+      ComputeType: 'BUILD_GENERAL1_LARGE',
+      EnvironmentVariables: [{ Name: 'STAGE', Type: 'PLAINTEXT', Value: 'dev' }],
+    });
+    expect(testProject.Properties.Cache.Location['Fn::Join'][1][1]).toEqual(
+      'cache/test-test/synth',
+    );
+    expect(JSON.stringify(testProject.Properties.Source.BuildSpec)).toMatch('codebuild-hash-files');
+  });
+
+  it('should only pause for approval when risky changes are detected.', () => {
+    const pipeline = pipelineStack({
+      branch: {
+        branchName: 'test',
+        stages: [{ name: 'dev', config: {}, riskAwareApproval: {} }],
+        waves: [
+          {
+            name: 'regional',
+            stages: [
+              { name: 'east', config: {}, riskAwareApproval: {} },
+              { name: 'west', config: {} },
+            ],
+          },
+        ],
+      },
+    });
+    const template = Template.fromStack(pipeline);
+    template.hasResourceProperties('AWS::CodePipeline::Pipeline', {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: 'dev',
+          Actions: Match.arrayWith([
+            Match.objectLike({ Name: 'ChangeRiskCheck', RunOrder: 1 }),
+            Match.objectLike({
+              Name: 'ApproveChanges',
+              RunOrder: 2,
+              Configuration: {
+                CustomData: '#{dev@ChangeRiskCheck.SUMMARY}',
+                ExternalEntityLink: '#{dev@ChangeRiskCheck.BUILD_URL}',
+              },
+            }),
+            Match.objectLike({ Name: 'AutoApproveChanges', RunOrder: 2 }),
+          ]),
+        }),
+        Match.objectLike({
+          Name: 'regional',
+          Actions: Match.arrayWith([
+            Match.objectLike({ Name: 'east.ChangeRiskCheck', RunOrder: 2 }),
+            Match.objectLike({ Name: 'east.ApproveChanges', RunOrder: 3 }),
+            Match.objectLike({ Name: 'east.AutoApproveChanges', RunOrder: 3 }),
+          ]),
+        }),
+      ]),
+    });
+    [
+      ['dev', 'ApproveChanges'],
+      ['regional', 'east.ApproveChanges'],
+    ].forEach(([stageName, actionName]) =>
+      template.hasResourceProperties('AWS::CodeBuild::Project', {
+        Environment: Match.objectLike({
+          EnvironmentVariables: Match.arrayWith([
+            { Name: 'STAGE_NAME', Type: 'PLAINTEXT', Value: stageName },
+            { Name: 'ACTION_NAME', Type: 'PLAINTEXT', Value: actionName },
+          ]),
+        }),
+      }),
+    );
+  });
+
+  it('should only trigger the pipeline for changes to the component.', () => {
+    const props = {
+      branch: {
+        branchName: 'main',
+        stages: [{ name: 'dev', config: {} }],
+      },
+      component: {
+        componentName: 'api',
+        componentType: NamedTestStage,
+        sourcePathFilters: ['packages/api/**'],
+      },
+    };
+    const pipeline = pipelineStack({
+      ...props,
+      repository: { source: { owner: 'owner/repo', options: { connectionArn: 'arn' } } },
+    });
+    Template.fromStack(pipeline).hasResourceProperties('AWS::CodePipeline::Pipeline', {
+      PipelineType: 'V2',
+      Triggers: [
+        {
+          ProviderType: 'CodeStarSourceConnection',
+          GitConfiguration: {
+            SourceActionName: 'owner_repo',
+            Push: [
+              {
+                Branches: { Includes: ['main'] },
+                FilePaths: { Includes: ['packages/api/**'] },
+              },
+            ],
+          },
+        },
+      ],
+    });
+
+    const codeCommitPipeline = pipelineStack(props);
+    Annotations.fromStack(codeCommitPipeline).hasWarning(
+      '*',
+      Match.stringLikeRegexp('CodeCommit sources do not support sourcePathFilters'),
+    );
+  });
+
+  it('should install packages from CodeArtifact.', () => {
+    const pipeline = pipelineStack({
+      pipelineConfig: {
+        codeArtifact: {
+          repositoryArn: 'arn:aws:codeartifact:us-east-1:123456789012:repository/domain/repo',
+        },
+      },
+    });
+    const template = Template.fromStack(pipeline);
+    template.hasResourceProperties('AWS::CodeBuild::Project', {
+      Source: {
+        BuildSpec: Match.stringLikeRegexp('aws codeartifact login --tool npm --domain domain'),
+      },
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: 'codeartifact:GetAuthorizationToken',
+            Resource: 'arn:aws:codeartifact:us-east-1:123456789012:domain/domain',
+          }),
+        ]),
+      },
+    });
+  });
+
+  it('should cache the dependencies of the synth project.', () => {
+    const pipeline = pipelineStack({ pipelineConfig: { cache: {} } });
+    const template = Template.fromStack(pipeline);
+    // the cache is kept in the artifact bucket the pipeline creates
+    template.resourceCountIs('AWS::S3::Bucket', 1);
+    template.hasResourceProperties('AWS::CodeBuild::Project', {
+      Cache: {
+        Type: 'S3',
+        Location: {
+          'Fn::Join': [
+            '/',
+            [{ Ref: Match.stringLikeRegexp('PipelineArtifactsBucket') }, 'cache/test-test/synth'],
+          ],
+        },
+      },
+      Source: { BuildSpec: Match.stringLikeRegexp('codebuild-hash-files') },
+    });
+  });
+
+  it('should notify the configured targets of the pipeline events.', () => {
+    const pipeline = pipelineStack({
+      pipelineConfig: {
+        notifications: {
+          slackChannelConfigurationArns: [
+            'arn:aws:chatbot::123456789012:chat-configuration/slack-channel/my-channel',
+          ],
+          eventPresets: [PipelineNotificationEvents.FAILURES],
+        },
+      },
+    });
+    Template.fromStack(pipeline).hasResourceProperties(
+      'AWS::CodeStarNotifications::NotificationRule',
+      {
+        EventTypeIds: Match.arrayWith(['codepipeline-pipeline-stage-execution-failed']),
+        Targets: [Match.objectLike({ TargetType: 'AWSChatbotSlack' })],
+      },
+    );
+  });
+
+  it('should bake the stage after the smoke tests.', () => {
+    const pipeline = pipelineStack({
+      branch: {
+        branchName: 'test',
+        stages: [
+          {
+            name: 'dev',
+            config: {},
+            smokeTests: [{ name: 'SmokeTest', commands: ['npm run smoke-test'] }],
+            bakeTime: { duration: Duration.minutes(30), alarmNames: ['dev-errors'] },
+          },
+        ],
+      },
+    });
+    Template.fromStack(pipeline).hasResourceProperties('AWS::CodePipeline::Pipeline', {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: 'dev',
+          Actions: Match.arrayWith([
+            Match.objectLike({ Name: 'TrimCloudAssemblyStep', RunOrder: 1 }),
+            Match.objectLike({ Name: 'CaptureTemplates', RunOrder: 2 }),
+            Match.objectLike({ Name: 'SmokeTest', RunOrder: 5 }),
+            Match.objectLike({ Name: 'BakeTime', RunOrder: 6 }),
+          ]),
+        }),
+      ]),
+    });
+  });
+
+  it('should wait for the deployment window after the approval.', () => {
+    const pipeline = pipelineStack({
+      branch: {
+        branchName: 'test',
+        stages: [
+          {
+            name: 'prod',
+            config: {},
+            manualApproval: true,
+            deploymentWindows: {
+              windows: [{ weekDays: 'MON-FRI', hours: '9-16', timeZone: 'Europe/Amsterdam' }],
+            },
+          },
+        ],
+      },
+    });
+    Template.fromStack(pipeline).hasResourceProperties('AWS::CodePipeline::Pipeline', {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: 'prod',
+          Actions: Match.arrayWith([
+            Match.objectLike({ Name: 'Promote_To_prod', RunOrder: 1 }),
+            Match.objectLike({ Name: 'DeploymentWindow', RunOrder: 2 }),
+          ]),
+        }),
+      ]),
+    });
+  });
+
+  it('should tear down the stages after the time to live of the branch.', () => {
+    const pipeline = pipelineStack({
+      branch: {
+        branchName: 'feature',
+        ttl: { duration: Duration.days(7) },
+        stages: [
+          { name: 'dev', config: {} },
+          { name: 'test', config: {}, ttl: { duration: Duration.days(1) } },
+        ],
+      },
+    });
+    const template = Template.fromStack(pipeline);
+    expect(
+      Object.keys(
+        template.findResources('AWS::Events::Rule', {
+          Properties: { ScheduleExpression: 'rate(15 minutes)' },
+        }),
+      ),
+    ).toHaveLength(2);
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: Match.objectLike({ STAGE_NAME: 'dev', TTL_SECONDS: '604800' }),
+      },
+    });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: Match.objectLike({ STAGE_NAME: 'test', TTL_SECONDS: '86400' }),
+      },
+    });
+    template.hasResourceProperties('AWS::CodePipeline::Pipeline', {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: 'dev',
+          Actions: Match.arrayWith([Match.objectLike({ Name: 'RecordDeployment' })]),
+        }),
+      ]),
+    });
+  });
+
+  it('should grant the synth project access to the secrets and parameters of its environment.', () => {
+    const pipeline = pipelineStack({
+      pipelineConfig: {
+        synthEnv: {
+          STAGE: { value: 'dev' },
+          API_KEY: { type: BuildEnvironmentVariableType.SECRETS_MANAGER, value: 'api-key' },
+          DOMAIN: { type: BuildEnvironmentVariableType.PARAMETER_STORE, value: '/test/domain' },
+        },
+      },
+    });
+    const template = Template.fromStack(pipeline);
+    template.hasResourceProperties('AWS::CodeBuild::Project', {
+      Environment: Match.objectLike({
+        EnvironmentVariables: Match.arrayWith([
+          { Name: 'STAGE', Type: 'PLAINTEXT', Value: 'dev' },
+          { Name: 'API_KEY', Type: 'SECRETS_MANAGER', Value: 'api-key' },
+          { Name: 'DOMAIN', Type: 'PARAMETER_STORE', Value: '/test/domain' },
+        ]),
+      }),
+    });
+    const policies = JSON.stringify(template.findResources('AWS::IAM::Policy'));
+    expect(policies).toMatch(/secretsmanager:GetSecretValue.*secret:api-key-\?{6}/);
+    expect(policies).toMatch(/ssm:GetParameters.*parameter\/test\/domain/);
+  });
+
+  it('should tag the pipeline and the stacks of the stages.', () => {
+    const commit = process.env.CODEBUILD_RESOLVED_SOURCE_VERSION;
+    process.env.CODEBUILD_RESOLVED_SOURCE_VERSION = 'abc123';
+    const taggedPipelineStack = (tagCommit?: boolean) =>
+      pipelineStack({
+        branch: {
+          branchName: 'main',
+          stages: [{ name: 'dev', config: {}, tags: { 'cost-center': 'dev-ops' } }],
+        },
+        component: {
+          componentName: 'api',
+          componentType: NamedTestStage,
+          tags: { 'cost-center': 'platform', team: 'payments' },
+        },
+        pipelineConfig: { tagCommit },
+      });
+    const pipeline = taggedPipelineStack(true);
+    const untaggedPipeline = taggedPipelineStack();
+    if (commit === undefined) delete process.env.CODEBUILD_RESOLVED_SOURCE_VERSION;
+    else process.env.CODEBUILD_RESOLVED_SOURCE_VERSION = commit;
+
+    const template = Template.fromStack(pipeline);
+    template.hasResourceProperties('AWS::CodePipeline::Pipeline', {
+      Tags: Match.arrayWith([
+        { Key: BranchPipelinesTag.BRANCH, Value: 'main' },
+        { Key: BranchPipelinesTag.COMPONENT, Value: 'api' },
+        { Key: 'cost-center', Value: 'platform' },
+        { Key: 'team', Value: 'payments' },
+      ]),
+    });
+    expect(JSON.stringify(template.toJSON())).not.toContain(BranchPipelinesTag.COMMIT);
+
+    const stageStack = (stack: Stack) =>
+      (stack.node.findChild('dev') as Stage).node.findChild('testStack') as Stack;
+    Template.fromStack(untaggedPipeline);
+    expect(stageStack(untaggedPipeline).tags.tagValues()).toHaveProperty(
+      [BranchPipelinesTag.STAGE],
+      'dev',
+    );
+    expect(stageStack(untaggedPipeline).tags.tagValues()).not.toHaveProperty([
+      BranchPipelinesTag.COMMIT,
+    ]);
+    expect(stageStack(pipeline).tags.tagValues()).toEqual({
+      [BranchPipelinesTag.BRANCH]: 'main',
+      [BranchPipelinesTag.COMMIT]: 'abc123',
+      [BranchPipelinesTag.COMPONENT]: 'api',
+      [BranchPipelinesTag.STAGE]: 'dev',
+      'cost-center': 'dev-ops',
+      team: 'payments',
+    });
+  });
 });
@@ -0,0 +1,184 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import * as os from 'os';
+import { join } from 'path';
+import { App, Stack, Stage, StageProps } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { BranchPipelines } from '../src/branch-pipelines';
+import { loadBranchPipelinesConfig } from '../src/config-file';
+
+interface TestConfig {
+  domain: string;
+  logging?: { level: string; retention?: number };
+}
+
+const CONFIG_FILE = `
+repository:
+  source:
+    owner: acme/api
+    options:
+      connectionArn: \${CONNECTION_ARN}
+pipelineConfig:
+  frozenLockfile: true
+stageDefaults:
+  config:
+    domain: dev.example.com
+    logging:
+      level: debug
+      retention: 7
+deploymentBranches:
+  - branchName: develop
+    stages:
+      - name: dev
+  - branchName: main
+    stageDefaults:
+      manualApproval: true
+      config:
+        logging:
+          level: info
+    stages:
+      - name: staging
+        manualApproval: false
+        config:
+          domain: staging.example.com
+    waves:
+      - name: prod
+        stages:
+          - name: prod-us
+            config:
+              domain: \${PROD_DOMAIN:-example.com}
+`;
+
+class TestStage extends Stage {
+  constructor(scope: Construct, id: string, props?: StageProps) {
+    super(scope, id, props);
+    new Stack(this, 'api');
+  }
+}
+
+describe('loadBranchPipelinesConfig', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = mkdtempSync(join(os.tmpdir(), 'branch-pipelines-'));
+  });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('resolves environment variables and merges the stage defaults.', () => {
+    writeFileSync(join(dir, 'pipelines.yml'), CONFIG_FILE);
+    const props = loadBranchPipelinesConfig<TestConfig>(join(dir, 'pipelines.yml'), {
+      CONNECTION_ARN: 'arn:aws:codestar-connections:us-east-1:123456789012:connection/test',
+    });
+    expect(props.repository.source).toEqual({
+      owner: 'acme/api',
+      options: {
+        connectionArn: 'arn:aws:codestar-connections:us-east-1:123456789012:connection/test',
+      },
+    });
+    expect(props.pipelineConfig).toEqual({ frozenLockfile: true });
+
+    const [develop, main] = props.deploymentBranches;
+    expect(develop.stages).toEqual([
+      {
+        name: 'dev',
+        config: { domain: 'dev.example.com', logging: { level: 'debug', retention: 7 } },
+      },
+    ]);
+    expect(main).not.toHaveProperty('stageDefaults');
+    expect(main.stages).toEqual([
+      {
+        name: 'staging',
+        manualApproval: false,
+        config: { domain: 'staging.example.com', logging: { level: 'info', retention: 7 } },
+      },
+    ]);
+    expect(main.waves?.[0].stages).toEqual([
+      {
+        name: 'prod-us',
+        manualApproval: true,
+        config: { domain: 'example.com', logging: { level: 'info', retention: 7 } },
+      },
+    ]);
+  });
+
+  it('parses JSON config files.', () => {
+    writeFileSync(
+      join(dir, 'pipelines.json'),
+      JSON.stringify({
+        repository: { source: { codeCommitArn: 'arn:aws:codecommit:us-east-1:123456789012:api' } },
+        deploymentBranches: [{ branchName: 'main', stages: [{ name: 'prod', config: {} }] }],
+      }),
+    );
+    const props = loadBranchPipelinesConfig(join(dir, 'pipelines.json'));
+    expect(props.deploymentBranches[0].stages).toEqual([{ name: 'prod', config: {} }]);
+  });
+
+  it('replaces the lists of the stage defaults.', () => {
+    writeFileSync(
+      join(dir, 'pipelines.yml'),
+      [
+        'repository:',
+        '  source:',
+        '    codeCommitArn: arn:aws:codecommit:us-east-1:123456789012:api',
+        'stageDefaults:',
+        '  smokeTests:',
+        '    - name: health',
+        '      commands: [curl -f $URL/health, curl -f $URL/ready]',
+        'deploymentBranches:',
+        '  - branchName: main',
+        '    stages:',
+        '      - name: prod',
+        '        smokeTests:',
+        '          - name: smoke',
+        '            commands: [npm run smoke]',
+      ].join('\n'),
+    );
+    const props = loadBranchPipelinesConfig(join(dir, 'pipelines.yml'), {});
+    expect(props.deploymentBranches[0].stages?.[0].smokeTests).toEqual([
+      { name: 'smoke', commands: ['npm run smoke'] },
+    ]);
+  });
+
+  it('reports every error in the config file.', () => {
+    writeFileSync(
+      join(dir, 'pipelines.yml'),
+      [
+        'repository: {}',
+        'deploymentBranches:',
+        '  - stages:',
+        '      - config: {}',
+        '  - branchName: ${MISSING}',
+        '    waves:',
+        '      - name: prod',
+      ].join('\n'),
+    );
+    expect(() => loadBranchPipelinesConfig(join(dir, 'pipelines.yml'), {})).toThrowError(
+      [
+        `Improper configuration: invalid config file ${join(dir, 'pipelines.yml')}`,
+        '  - repository.source must be specified',
+        '  - deploymentBranches[0].branchName must be a string',
+        '  - deploymentBranches[0].stages[0].name must be a string',
+        '  - deploymentBranches[1].waves[0].stages must be a list',
+        '  - deploymentBranches[1].branchName: environment variable MISSING is not set',
+      ].join('\n'),
+    );
+  });
+
+  it('creates the pipelines from the config file.', () => {
+    writeFileSync(join(dir, 'pipelines.yml'), CONFIG_FILE);
+    process.env.CONNECTION_ARN =
+      'arn:aws:codestar-connections:us-east-1:123456789012:connection/test';
+    try {
+      const branchPipelines = BranchPipelines.fromConfigFile<TestConfig>(
+        new App(),
+        join(dir, 'pipelines.yml'),
+        { componentName: 'api', componentType: TestStage },
+        { env: { account: '123456789012', region: 'us-east-1' } },
+      );
+      expect(branchPipelines.componentPipelineStacks.map(stack => stack.stackName)).toEqual([
+        'api-develop-pipeline',
+        'api-main-pipeline',
+      ]);
+    } finally {
+      delete process.env.CONNECTION_ARN;
+    }
+  });
+});
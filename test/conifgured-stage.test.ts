@@ -1,6 +1,6 @@
 import { Stack, App } from 'aws-cdk-lib';
 import { Construct } from 'constructs';
-import { ConfiguredStage, ConfiguredStageProps } from '../src';
+import { ConfiguredStage, ConfiguredStageProps, mergeConfigLayers } from '../src';
 
 describe('Configured Stage', () => {
   class TestStack<T> extends Stack {
@@ -66,4 +66,65 @@ describe('Configured Stage', () => {
 
     expect(stage.myStack.stage.config.foo).toBe('bar');
   });
+
+  test('requires a ConfiguredStage in the scopes of a construct', () => {
+    const stack = new TestStack<{ foo: string }>({ config: { foo: 'bar' } });
+    const construct = new Construct(stack.stage, 'Construct');
+
+    expect(ConfiguredStage.requireOf<{ foo: string }>(construct).config.foo).toBe('bar');
+    expect(() => ConfiguredStage.requireOf(stack)).toThrowError(
+      'Improper configuration: Default must be created within a ConfiguredStage',
+    );
+  });
+
+  test('validates the config', () => {
+    expect(
+      () =>
+        new TestStack<{ retries: number }>({
+          config: { retries: -1 },
+          validateConfig: {
+            validate: config => (config.retries < 0 ? ['retries must be positive'] : []),
+          },
+        }),
+    ).toThrowError(
+      "Improper configuration: the config of stage 'test' is invalid:\n  - retries must be positive",
+    );
+  });
+
+  test('gets config values by path', () => {
+    const stack = new TestStack<{ database: { instanceType: string; port?: number } }>({
+      stageName: 'dev',
+      config: { database: { instanceType: 't3.micro' } },
+    });
+
+    expect(stack.stage.get('database.instanceType')).toBe('t3.micro');
+    expect(() => stack.stage.get('database.port')).toThrowError(
+      "Improper configuration: the config of stage 'dev' is missing the required key 'database.port'",
+    );
+  });
+
+  test('merges config layers in order', () => {
+    interface LayeredConfig {
+      domain: string;
+      logging: { level: string; retention: number };
+      regions: string[];
+    }
+
+    expect(
+      mergeConfigLayers<LayeredConfig>(
+        {
+          domain: 'example.com',
+          logging: { level: 'debug', retention: 7 },
+          regions: ['us-east-1'],
+        },
+        { logging: { level: 'info' } },
+        undefined,
+        { domain: 'dev.example.com', regions: ['eu-west-1', 'eu-central-1'] },
+      ),
+    ).toEqual({
+      domain: 'dev.example.com',
+      logging: { level: 'info', retention: 7 },
+      regions: ['eu-west-1', 'eu-central-1'],
+    });
+  });
 });
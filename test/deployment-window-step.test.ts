@@ -0,0 +1,85 @@
+import { spawnSync } from 'child_process';
+import { Duration } from 'aws-cdk-lib';
+import {
+  DeploymentWindow,
+  DeploymentWindowBehavior,
+  DeploymentWindowStep,
+  DeploymentWindowsConfig,
+} from '../src/deployment-window-step';
+
+describe('DeploymentWindowStep', () => {
+  // runs the check of the step as CodeBuild would, at the given time
+  const runCheck = (config: DeploymentWindowsConfig, now = '2024-01-01T10:00:00Z') => {
+    const step = new DeploymentWindowStep('prod', config);
+    const script = Buffer.from(step.commands[0].split(' ')[1], 'base64').toString();
+    const clock = `const RealDate = Date; const NOW = RealDate.parse('${now}'); global.Date = class extends RealDate { constructor(...args) { super(...(args.length ? args : [NOW])); } static now() { return NOW; } };`;
+    return spawnSync('node', ['-e', `${clock}\n${script}`], {
+      env: { ...process.env, ...step.env },
+      encoding: 'utf-8',
+      timeout: 10000,
+    });
+  };
+
+  it('should deploy inside a deployment window.', () => {
+    const result = runCheck({
+      windows: [{ weekDays: 'SUN-SAT', hours: '10', timeZone: 'UTC' }],
+    });
+    expect(result.stdout).toMatch('The stage may be deployed');
+    expect(result.status).toEqual(0);
+  });
+
+  it('should fail outside of the deployment windows.', () => {
+    const result = runCheck({
+      windows: [{ hours: '22' }],
+      behavior: DeploymentWindowBehavior.FAIL,
+    });
+    expect(result.stderr).toMatch('outside of the deployment windows');
+    expect(result.status).toEqual(1);
+  });
+
+  it('should wrap ranges around the end of the week and day.', () => {
+    // 2024-01-01 is a Monday
+    const check = (window: DeploymentWindow, now?: string) =>
+      runCheck({ windows: [window], behavior: DeploymentWindowBehavior.FAIL }, now).status;
+    expect(check({ weekDays: 'FRI-MON' })).toEqual(0);
+    expect(check({ weekDays: 'FRI-MON' }, '2024-01-03T10:00:00Z')).toEqual(1);
+    expect(check({ hours: '22-2' }, '2024-01-01T23:00:00Z')).toEqual(0);
+    expect(check({ hours: '22-2' }, '2024-01-01T01:00:00Z')).toEqual(0);
+    expect(check({ hours: '22-2' })).toEqual(1);
+    expect(check({ hours: '9-16', timeZone: 'America/New_York' }, '2024-01-01T15:00:00Z')).toEqual(
+      0,
+    );
+  });
+
+  it('should fail during a freeze period.', () => {
+    const result = runCheck({
+      freezePeriods: [{ start: '2000-01-01', end: '2100-01-01', reason: 'holidays' }],
+      behavior: DeploymentWindowBehavior.FAIL,
+    });
+    expect(result.stderr).toMatch('until 2100-01-01: holidays');
+    expect(result.status).toEqual(1);
+  });
+
+  it('should wait for at most maxWait.', () => {
+    const step = new DeploymentWindowStep('prod', { maxWait: Duration.hours(2) });
+    expect(JSON.parse(step.env.DEPLOYMENT_WINDOWS)).toMatchObject({
+      wait: true,
+      maxWaitSeconds: 7200,
+    });
+  });
+
+  it('should validate the deployment windows.', () => {
+    expect(() => new DeploymentWindowStep('prod', { windows: [{ hours: '9-25' }] })).toThrowError(
+      "have invalid hours '9-25'",
+    );
+    expect(
+      () => new DeploymentWindowStep('prod', { windows: [{ timeZone: 'Mars/Olympus_Mons' }] }),
+    ).toThrowError("unknown time zone 'Mars/Olympus_Mons'");
+    expect(
+      () =>
+        new DeploymentWindowStep('prod', {
+          freezePeriods: [{ start: '2024-12-31', end: '2024-12-20' }],
+        }),
+    ).toThrowError('invalid freeze period');
+  });
+});
@@ -0,0 +1,86 @@
+import { App, Arn } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { EphemeralBranchControllerStack } from '../src/ephemeral-branch-controller-stack';
+
+describe('EphemeralBranchControllerStack', () => {
+  const codeCommitArn = Arn.format({
+    partition: 'aws',
+    region: 'us-east-1',
+    account: '123456789012',
+    service: 'codecommit',
+    resource: 'my-repo',
+  });
+
+  it('should listen for branch create and delete events.', () => {
+    const stack = new EphemeralBranchControllerStack(new App(), 'test', {
+      componentName: 'test',
+      branchPattern: 'feature/*',
+      controllerBranch: 'main',
+      repository: { source: { codeCommitArn } },
+      env: { region: 'us-east-1', account: '123456789012' },
+    });
+    const template = Template.fromStack(stack);
+
+    template.resourceCountIs('AWS::CodeBuild::Project', 1);
+    ['referenceCreated', 'referenceDeleted'].forEach(event =>
+      template.hasResourceProperties('AWS::Events::Rule', {
+        EventPattern: {
+          source: ['aws.codecommit'],
+          detail: {
+            event: [event],
+            referenceType: ['branch'],
+            referenceName: [{ wildcard: 'feature/*' }],
+          },
+        },
+        Targets: [
+          Match.objectLike({
+            InputTransformer: Match.objectLike({
+              InputPathsMap: { 'detail-referenceName': '$.detail.referenceName' },
+            }),
+          }),
+        ],
+      }),
+    );
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: 'sts:AssumeRole',
+            Resource: '*',
+            Condition: {
+              StringEquals: {
+                'iam:ResourceTag/aws-cdk:bootstrap-role': Match.arrayWith(['deploy']),
+              },
+            },
+          }),
+        ]),
+      },
+    });
+  });
+
+  it('should reject branch patterns with glob syntax EventBridge does not support.', () => {
+    expect(
+      () =>
+        new EphemeralBranchControllerStack(new App(), 'test', {
+          componentName: 'test',
+          branchPattern: 'feature/{a,b}',
+          controllerBranch: 'main',
+          repository: { source: { codeCommitArn } },
+        }),
+    ).toThrowError(/Improper configuration/);
+  });
+
+  it('should throw an error when the source is not CodeCommit.', () => {
+    expect(
+      () =>
+        new EphemeralBranchControllerStack(new App(), 'test', {
+          componentName: 'test',
+          branchPattern: 'feature/*',
+          controllerBranch: 'main',
+          repository: {
+            source: { owner: 'test/test', options: { connectionArn: 'arn' } },
+          },
+        }),
+    ).toThrowError(/CodeCommit/);
+  });
+});
@@ -1,5 +1,6 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
 import * as os from 'os';
-import { resolve } from 'path';
+import { join, resolve } from 'path';
 import { LogLevel } from 'aws-cdk-lib/aws-lambda-nodejs';
 import { findLockFile, LockFile, PackageManager } from '../src/package-manager';
 import * as fileUtils from '../src/util';
@@ -50,6 +51,62 @@ test('from a pnpm-lock.yaml with LogLevel.ERROR', () => {
   expect(packageManager.installCommand).toEqual(['pnpm', 'install', '--reporter', 'silent']);
 });
 
+test('from a yarn.lock in frozen mode', () => {
+  const packageManager = PackageManager.fromLockFile('/path/to/yarn.lock', undefined, true);
+  expect(packageManager.installCommand).toEqual(['yarn', 'install', '--frozen-lockfile']);
+  expect(packageManager.yarnBerry).toBe(false);
+});
+
+describe('from a Yarn Berry yarn.lock', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = mkdtempSync(join(os.tmpdir(), 'yarn-berry-'));
+    writeFileSync(join(dir, 'yarn.lock'), '');
+  });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('detects Yarn Berry from the .yarnrc.yml', () => {
+    writeFileSync(join(dir, '.yarnrc.yml'), 'nodeLinker: node-modules\n');
+    const packageManager = PackageManager.fromLockFile(join(dir, 'yarn.lock'));
+    expect(packageManager.yarnBerry).toBe(true);
+    expect(packageManager.pnp).toBe(false);
+    expect(packageManager.installCommand).toEqual(['yarn', 'install', '--no-immutable']);
+    expect(packageManager.dlx('cdk', 'synth')).toBe('yarn dlx cdk synth');
+    expect(packageManager.cacheDirectories).toEqual(['.yarn/cache', 'node_modules']);
+  });
+
+  it('detects PnP from the nodeLinker and installs immutably in frozen mode', () => {
+    writeFileSync(join(dir, '.yarnrc.yml'), 'nodeLinker: pnp\n');
+    const packageManager = PackageManager.fromLockFile(join(dir, 'yarn.lock'), undefined, true);
+    expect(packageManager.pnp).toBe(true);
+    expect(packageManager.installCommand).toEqual(['yarn', 'install', '--immutable']);
+    expect(packageManager.cacheDirectories).toEqual(['.yarn/cache']);
+  });
+
+  it('defaults to PnP before the dependencies are installed', () => {
+    writeFileSync(join(dir, '.yarnrc.yml'), 'enableTelemetry: false\n');
+    const packageManager = PackageManager.fromLockFile(join(dir, 'yarn.lock'));
+    expect(packageManager.pnp).toBe(true);
+  });
+});
+
+test('from a pnpm-lock.yaml in frozen mode', () => {
+  const packageManager = PackageManager.fromLockFile('/path/to/pnpm-lock.yaml', undefined, true);
+  expect(packageManager.installCommand).toEqual(['pnpm', 'install', '--frozen-lockfile']);
+  expect(packageManager.dlx('cdk')).toBe('pnpm dlx cdk');
+});
+
+test('from a bun.lockb', () => {
+  const packageManager = PackageManager.fromLockFile('/path/to/bun.lockb');
+  expect(packageManager.lockFile).toEqual(LockFile.BUN);
+  expect(packageManager.installCommand).toEqual(['bun', 'install']);
+  expect(packageManager.runScript('cdk synth')).toBe('bun run cdk synth');
+  expect(packageManager.runBinCommand('my-bin')).toBe('bun x my-bin');
+  expect(PackageManager.fromLockFile('/path/to/bun.lockb', undefined, true).installCommand).toEqual(
+    ['bun', 'install', '--frozen-lockfile'],
+  );
+});
+
 test('defaults to NPM', () => {
   const packageManager = PackageManager.fromLockFile('/path/to/other.lock');
   expect(packageManager.lockFile).toEqual(LockFile.NPM);
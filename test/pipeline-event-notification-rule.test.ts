@@ -1,29 +1,85 @@
 import { App, Arn, Stack } from 'aws-cdk-lib';
+import { Template } from 'aws-cdk-lib/assertions';
 import { CodePipeline, ShellStep } from 'aws-cdk-lib/pipelines';
 import { CodeSource } from '../src/code-source';
-import { PipelineEventNotificationRule } from '../src/pipeline-event-notification-rule';
+import {
+  PipelineEventNotificationRule,
+  PipelineNotificationEvents,
+} from '../src/pipeline-event-notification-rule';
+
+const createPipeline = () => {
+  const pipelineStack = new Stack(new App(), 'TestStack', {
+    env: {
+      region: 'us-east-1',
+      account: '123456789012',
+    },
+  });
+  const pipeline = new CodePipeline(pipelineStack, 'TestPipeline', {
+    synth: new ShellStep('Synth', {
+      input: new CodeSource(pipelineStack, 'test', {
+        codeCommitArn: Arn.format({ service: 'codecommit', resource: 'my-repo' }, pipelineStack),
+      }).source,
+      commands: [`cd someDir`, `npm run cdk synth -o outDir`],
+      primaryOutputDirectory: `someDir/outDir`,
+    }),
+  });
+  pipeline.buildPipeline();
+  return { stack: pipelineStack, codePipeline: pipeline };
+};
 
-const stack = new Stack(new App(), 'TestStack', {
-  env: {
-    region: 'us-east-1',
-    account: '123456789012',
-  },
-});
-const codePipeline = new CodePipeline(stack, 'TestPipeline', {
-  synth: new ShellStep('Synth', {
-    input: new CodeSource(stack, 'test', {
-      codeCommitArn: Arn.format({ service: 'codecommit', resource: 'my-repo' }, stack),
-    }).source,
-    commands: [`cd someDir`, `npm run cdk synth -o outDir`],
-    primaryOutputDirectory: `someDir/outDir`,
-  }),
-});
-codePipeline.buildPipeline();
 describe('PipelineEventNotificationRule', () => {
   it('should create without error.', () => {
+    const { stack, codePipeline } = createPipeline();
     const rule = new PipelineEventNotificationRule(codePipeline, {
       notificationTopicArn: Arn.format({ service: 'sns', resource: 'my-topic' }, stack),
     });
     expect(rule).not.toBeNull;
   });
+
+  it('should notify multiple topics and Slack channels of the preset events.', () => {
+    const { stack, codePipeline } = createPipeline();
+    new PipelineEventNotificationRule(codePipeline, {
+      notificationTopicArns: [
+        'arn:aws:sns:us-east-1:123456789012:first',
+        'arn:aws:sns:us-east-1:123456789012:second',
+      ],
+      slackChannelConfigurationArns: [
+        'arn:aws:chatbot::123456789012:chat-configuration/slack-channel/my-channel',
+      ],
+      eventPresets: [PipelineNotificationEvents.FAILURES, PipelineNotificationEvents.APPROVALS],
+    });
+
+    Template.fromStack(stack).hasResourceProperties(
+      'AWS::CodeStarNotifications::NotificationRule',
+      {
+        EventTypeIds: [
+          'codepipeline-pipeline-pipeline-execution-failed',
+          'codepipeline-pipeline-stage-execution-failed',
+          'codepipeline-pipeline-action-execution-failed',
+          'codepipeline-pipeline-manual-approval-failed',
+          'codepipeline-pipeline-manual-approval-needed',
+          'codepipeline-pipeline-manual-approval-succeeded',
+        ],
+        Targets: [
+          { TargetAddress: 'arn:aws:sns:us-east-1:123456789012:first', TargetType: 'SNS' },
+          { TargetAddress: 'arn:aws:sns:us-east-1:123456789012:second', TargetType: 'SNS' },
+          {
+            TargetAddress:
+              'arn:aws:chatbot::123456789012:chat-configuration/slack-channel/my-channel',
+            TargetType: 'AWSChatbotSlack',
+          },
+        ],
+      },
+    );
+  });
+
+  it('should require a notification target.', () => {
+    const { codePipeline } = createPipeline();
+    expect(
+      () =>
+        new PipelineEventNotificationRule(codePipeline, {
+          eventPresets: [PipelineNotificationEvents.STAGE_TRANSITIONS],
+        }),
+    ).toThrow('at least one notification topic or Slack channel configuration');
+  });
 });
@@ -0,0 +1,180 @@
+import { App, Stack } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { Pipeline } from 'aws-cdk-lib/aws-codepipeline';
+import { loadInlineHandler } from './util';
+import {
+  BranchPipelinesDashboard,
+  PipelineDashboard,
+  PipelineMetrics,
+} from '../src/pipeline-metrics';
+
+describe('PipelineMetrics', () => {
+  const stack = new Stack(new App(), 'test');
+  const pipeline = Pipeline.fromPipelineArn(
+    stack,
+    'Pipeline',
+    'arn:aws:codepipeline:us-east-1:123456789012:api-main',
+  );
+  const metrics = new PipelineMetrics(stack, 'PipelineMetrics', {
+    pipeline,
+    componentName: 'api',
+  });
+  new PipelineDashboard(stack, 'PipelineDashboard', { metrics });
+  const template = Template.fromStack(stack);
+
+  it('should turn the pipeline events into metrics.', () => {
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Code: { ZipFile: Match.stringLikeRegexp('CloudWatchMetrics') },
+      Runtime: 'nodejs20.x',
+      Environment: { Variables: { NAMESPACE: 'BranchPipelines', COMPONENT_NAME: 'api' } },
+    });
+    template.hasResourceProperties('AWS::Events::Rule', {
+      EventPattern: {
+        'detail-type': [
+          'CodePipeline Pipeline Execution State Change',
+          'CodePipeline Stage Execution State Change',
+        ],
+        detail: { pipeline: ['api-main'], state: ['SUCCEEDED', 'FAILED'] },
+      },
+    });
+    template.hasResourceProperties('AWS::Events::Rule', {
+      EventPattern: {
+        'detail-type': ['CodePipeline Action Execution State Change'],
+        detail: Match.objectLike({ type: { category: ['Approval'] } }),
+      },
+    });
+    const [handler] = Object.values(
+      template.findResources('AWS::Lambda::Function', {
+        Properties: { Handler: 'index.handler' },
+      }),
+    );
+    // inline code is limited to 4KB
+    expect(handler.Properties.Code.ZipFile.length).toBeLessThan(4096);
+  });
+
+  describe('handler', () => {
+    const [handler] = Object.values(
+      template.findResources('AWS::Lambda::Function', {
+        Properties: { Handler: 'index.handler' },
+      }),
+    );
+    const load = (respond: (command: string, input: any) => any) =>
+      loadInlineHandler(
+        handler.Properties.Code.ZipFile,
+        { NAMESPACE: 'BranchPipelines', COMPONENT_NAME: 'api' },
+        '2024-01-01T11:00:00Z',
+        respond,
+      );
+    const actionExecutions = (command: string, input: any) =>
+      command === 'ListActionExecutionsCommand' && !input.nextToken
+        ? {
+            actionExecutionDetails: [
+              { stageName: 'build', actionName: 'Synth', startTime: '2024-01-01T09:00:00Z' },
+              { stageName: 'prod', actionName: 'Approve', startTime: '2024-01-01T10:04:00Z' },
+            ],
+            nextToken: 'page-2',
+          }
+        : {
+            actionExecutionDetails: [
+              { stageName: 'prod', actionName: 'Deploy', startTime: '2024-01-01T10:02:00Z' },
+            ],
+          };
+    const event = (detailType: string, detail: Record<string, string>) => ({
+      'detail-type': `CodePipeline ${detailType} State Change`,
+      time: '2024-01-01T10:10:00Z',
+      detail: { pipeline: 'api-main', 'execution-id': 'execution-1', ...detail },
+    });
+
+    it('should log the duration and failure of pipeline executions.', async () => {
+      const {
+        handler: run,
+        sent,
+        logs,
+      } = load((_command, input) =>
+        input.nextToken
+          ? {
+              pipelineExecutionSummaries: [
+                { pipelineExecutionId: 'execution-1', startTime: '2024-01-01T10:00:00Z' },
+              ],
+            }
+          : {
+              pipelineExecutionSummaries: [{ pipelineExecutionId: 'execution-2' }],
+              nextToken: 'page-2',
+            },
+      );
+      await run(event('Pipeline Execution', { state: 'FAILED' }));
+
+      expect(sent.map(({ command }) => command)).toEqual([
+        'ListPipelineExecutionsCommand',
+        'ListPipelineExecutionsCommand',
+      ]);
+      expect(logs.map(log => JSON.parse(log))).toEqual([
+        {
+          _aws: {
+            Timestamp: Date.parse('2024-01-01T10:10:00Z'),
+            CloudWatchMetrics: [
+              {
+                Namespace: 'BranchPipelines',
+                Dimensions: [['Component', 'Pipeline']],
+                Metrics: [
+                  { Name: 'ExecutionFailure', Unit: 'Count' },
+                  { Name: 'ExecutionDuration', Unit: 'Seconds' },
+                ],
+              },
+            ],
+          },
+          Component: 'api',
+          Pipeline: 'api-main',
+          ExecutionFailure: 1,
+          ExecutionDuration: 600,
+        },
+      ]);
+    });
+
+    it('should log the duration of stages from their first action.', async () => {
+      const { handler: run, logs } = load(actionExecutions);
+      await run(event('Stage Execution', { stage: 'prod', state: 'SUCCEEDED' }));
+
+      const [log] = logs.map(line => JSON.parse(line));
+      expect(log._aws.CloudWatchMetrics[0].Dimensions).toEqual([
+        ['Component', 'Pipeline', 'Stage'],
+      ]);
+      expect(log).toMatchObject({ Stage: 'prod', StageDuration: 480 });
+    });
+
+    it('should log the wait time of manual approvals.', async () => {
+      const { handler: run, logs } = load(actionExecutions);
+      await run(
+        event('Action Execution', { stage: 'prod', action: 'Approve', state: 'SUCCEEDED' }),
+      );
+
+      expect(logs.map(line => JSON.parse(line))).toEqual([
+        expect.objectContaining({ Stage: 'prod', ApprovalWaitTime: 360 }),
+      ]);
+    });
+  });
+
+  it('should expose the metrics of the pipeline.', () => {
+    expect(metrics.metricStageDuration('dev').dimensions).toEqual({
+      Component: 'api',
+      Pipeline: 'api-main',
+      Stage: 'dev',
+    });
+    expect(metrics.metricFailureRate().statistic).toEqual('Average');
+  });
+
+  it('should graph the metrics of the pipeline.', () => {
+    const dashboards = JSON.stringify(template.findResources('AWS::CloudWatch::Dashboard'));
+    expect(dashboards).toMatch(/SEARCH.*StageDuration.*Pipeline=.*api-main/);
+  });
+
+  it('should graph the pipelines of every component.', () => {
+    const dashboardStack = new Stack(new App(), 'dashboard');
+    new BranchPipelinesDashboard(dashboardStack, 'Dashboard', { componentNames: ['api', 'web'] });
+    const dashboards = JSON.stringify(
+      Template.fromStack(dashboardStack).findResources('AWS::CloudWatch::Dashboard'),
+    );
+    expect(dashboards).toMatch(/# api/);
+    expect(dashboards).toMatch(/SEARCH.*ApprovalWaitTime.*Component=.*web/);
+  });
+});
@@ -0,0 +1,107 @@
+import { App, Arn, Stack } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { SourceType } from '../src/code-source';
+import { PullRequestValidationStack } from '../src/pull-request-validation-stack';
+
+describe('PullRequestValidationStack', () => {
+  const codeCommitArn = Arn.format({
+    partition: 'aws',
+    region: 'us-east-1',
+    account: '123456789012',
+    service: 'codecommit',
+    resource: 'my-repo',
+  });
+  const buildSpec = (stack: Stack) => {
+    const [project] = Object.values(
+      Template.fromStack(stack).findResources('AWS::CodeBuild::Project'),
+    );
+    const { phases } = JSON.parse(project.Properties.Source.BuildSpec);
+    return [...phases.build.commands, ...phases.post_build.commands].join('\n');
+  };
+
+  it('should validate CodeCommit pull requests and comment the summary.', () => {
+    const stack = new PullRequestValidationStack(new App(), 'test', {
+      componentName: 'api',
+      repository: { source: { codeCommitArn } },
+      deploymentBranches: [
+        { branchName: 'main' },
+        { branchName: 'develop', staticPipelineIdentifier: 'dev' },
+      ],
+      env: { region: 'us-east-1', account: '123456789012' },
+    });
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('AWS::Events::Rule', {
+      EventPattern: {
+        source: ['aws.codecommit'],
+        detail: { event: ['pullRequestCreated', 'pullRequestSourceBranchUpdated'] },
+      },
+      Targets: [
+        Match.objectLike({
+          InputTransformer: Match.objectLike({
+            InputPathsMap: Match.objectLike({ 'detail-pullRequestId': '$.detail.pullRequestId' }),
+          }),
+        }),
+      ],
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({ Action: 'codecommit:PostCommentForPullRequest' }),
+        ]),
+      },
+    });
+    const spec = buildSpec(stack);
+    expect(spec).toMatch('cdk synth -o out -c branch-pipelines:pullRequest=true');
+    expect(spec).toMatch('"main") STACKS="api-main-pipeline/**" ;;');
+    expect(spec).toMatch('"develop") STACKS="api-dev-pipeline/**" ;;');
+    expect(spec).toMatch('aws codecommit post-comment-for-pull-request --repository-name my-repo');
+  });
+
+  it('should report the commit status of GitHub pull requests.', () => {
+    const stack = new PullRequestValidationStack(new App(), 'test', {
+      componentName: 'api',
+      repository: { source: { owner: 'acme/api', options: { connectionArn: 'arn' } } },
+      deploymentBranches: [{ branchName: 'main' }],
+      strict: true,
+      githubTokenSecretArn: 'arn:aws:secretsmanager:us-east-1:123456789012:secret:github-AbCdEf',
+    });
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('AWS::CodeBuild::Project', {
+      Source: Match.objectLike({
+        Type: 'GITHUB',
+        Location: 'https://github.com/acme/api.git',
+        ReportBuildStatus: true,
+      }),
+      Triggers: Match.objectLike({ Webhook: true }),
+      Environment: Match.objectLike({
+        EnvironmentVariables: [Match.objectLike({ Name: 'GITHUB_TOKEN', Type: 'SECRETS_MANAGER' })],
+      }),
+    });
+    const spec = buildSpec(stack);
+    expect(spec).toMatch('--strict');
+    expect(spec).toMatch(
+      'https://api.github.com/repos/acme/api/issues/${CODEBUILD_WEBHOOK_TRIGGER#pr/}/comments',
+    );
+  });
+
+  it('should throw an error for other sources.', () => {
+    expect(
+      () =>
+        new PullRequestValidationStack(new App(), 'test', {
+          componentName: 'api',
+          repository: {
+            source: {
+              repoString: 'acme/api',
+              options: { connectionArn: 'arn' },
+              type: SourceType.GITLAB,
+            },
+          },
+          deploymentBranches: [],
+        }),
+    ).toThrowError(
+      'Improper configuration: pull request validation requires a CodeCommit or GitHub repository',
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import { App, CfnOutput, Stack, Stage } from 'aws-cdk-lib';
+import { BuildEnvironmentVariableType } from 'aws-cdk-lib/aws-codebuild';
+import { SmokeTestStep } from '../src/smoke-test-step';
+
+describe('SmokeTestStep', () => {
+  const stage = new Stage(new App(), 'dev');
+  new CfnOutput(new Stack(stage, 'WebStack'), 'WebsiteEndpoint', { value: 'https://example.com' });
+
+  it('should wire environment variables from CfnOutputs.', () => {
+    const step = new SmokeTestStep(stage, {
+      name: 'SmokeTest',
+      commands: ['curl -f $ENDPOINT'],
+      envFromCfnOutputs: { ENDPOINT: 'WebStack/WebsiteEndpoint' },
+    });
+    expect(step.envFromCfnOutputs.ENDPOINT).toBeDefined();
+  });
+
+  it('should throw an error when the CfnOutput does not exist.', () => {
+    expect(
+      () =>
+        new SmokeTestStep(stage, {
+          name: 'SmokeTest',
+          commands: ['curl -f $ENDPOINT'],
+          envFromCfnOutputs: { ENDPOINT: 'WebStack/Missing' },
+        }),
+    ).toThrowError("Stage 'dev' does not have a CfnOutput at 'WebStack/Missing'");
+  });
+
+  it('should resolve parameters and secrets through CodeBuild.', () => {
+    const step = new SmokeTestStep(stage, {
+      name: 'SmokeTest',
+      commands: ['curl -f -H "Authorization: $TOKEN" https://example.com'],
+      buildEnv: {
+        TOKEN: { type: BuildEnvironmentVariableType.SECRETS_MANAGER, value: 'dev/token' },
+      },
+    });
+    expect(step.buildEnvironment?.environmentVariables).toEqual({
+      TOKEN: { type: BuildEnvironmentVariableType.SECRETS_MANAGER, value: 'dev/token' },
+    });
+  });
+});
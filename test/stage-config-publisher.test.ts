@@ -0,0 +1,100 @@
+import { App, Stack } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { Role, ServicePrincipal } from 'aws-cdk-lib/aws-iam';
+import { ConfiguredStage } from '../src/configured-stage';
+import { StageConfigPublisher, StageConfigStore } from '../src/stage-config-publisher';
+
+describe('StageConfigPublisher', () => {
+  const config = {
+    domain: 'dev.example.com',
+    database: { port: 5432, instanceType: 't3.micro' },
+    featureFlags: ['search'],
+  };
+  const stageStack = () => new Stack(new ConfiguredStage(new App(), 'dev', { config }), 'api');
+  const role = (stack: Stack) =>
+    new Role(stack, 'Role', { assumedBy: new ServicePrincipal('lambda.amazonaws.com') });
+
+  it('should publish the config to a parameter hierarchy.', () => {
+    const stack = stageStack();
+    const publisher = new StageConfigPublisher(stack, 'Config');
+    publisher.grantRead(role(stack));
+
+    const template = Template.fromStack(stack);
+    expect(publisher.parameterPrefix).toEqual('/dev/config');
+    template.resourceCountIs('AWS::SSM::Parameter', 4);
+    template.hasResourceProperties('AWS::SSM::Parameter', {
+      Name: '/dev/config/database/port',
+      Value: '5432',
+    });
+    template.hasResourceProperties('AWS::SSM::Parameter', {
+      Name: '/dev/config/featureFlags',
+      Value: '["search"]',
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: [
+          Match.objectLike({
+            Action: ['ssm:GetParameter', 'ssm:GetParameters', 'ssm:GetParametersByPath'],
+          }),
+        ],
+      },
+    });
+    expect(JSON.stringify(template.findResources('AWS::IAM::Policy'))).toMatch(
+      ':parameter/dev/config/*',
+    );
+  });
+
+  it('should publish the selected keys to AppConfig.', () => {
+    const stack = stageStack();
+    const publisher = new StageConfigPublisher(stack, 'Config', {
+      store: StageConfigStore.APP_CONFIG,
+      keys: ['database.port', 'domain'],
+    });
+    publisher.grantRead(role(stack));
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties('AWS::AppConfig::Application', { Name: 'dev' });
+    template.hasResourceProperties('AWS::AppConfig::HostedConfigurationVersion', {
+      Content: JSON.stringify({ database: { port: 5432 }, domain: 'dev.example.com' }),
+      ContentType: 'application/json',
+    });
+    template.resourceCountIs('AWS::AppConfig::Deployment', 1);
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: [
+          Match.objectLike({
+            Action: ['appconfig:StartConfigurationSession', 'appconfig:GetLatestConfiguration'],
+          }),
+        ],
+      },
+    });
+  });
+
+  it('should throw an error when a key or value cannot be published to Parameter Store.', () => {
+    const publish = (stageConfig: Record<string, unknown>) =>
+      new StageConfigPublisher(
+        new Stack(new ConfiguredStage(new App(), 'dev', { config: stageConfig }), 'api'),
+        'Config',
+      );
+    expect(() => publish({ routes: { 'api/v1': 'https://api.example.com' } })).toThrowError(
+      "Improper configuration: the config key 'routes.api/v1' of stage 'dev' cannot be published to Parameter Store, keys may only contain letters, numbers, '.', '-' and '_'",
+    );
+    expect(() => publish({ domain: '' })).toThrowError(
+      "Improper configuration: the config key 'domain' of stage 'dev' cannot be published to Parameter Store, its value is empty",
+    );
+  });
+
+  it('should throw an error when a selected key is missing.', () => {
+    expect(
+      () => new StageConfigPublisher(stageStack(), 'Config', { keys: ['database.password'] }),
+    ).toThrowError(
+      "Improper configuration: the config of stage 'dev' is missing the required key 'database.password'",
+    );
+  });
+
+  it('should throw an error outside of a ConfiguredStage.', () => {
+    expect(() => new StageConfigPublisher(new Stack(), 'Config')).toThrowError(
+      'Improper configuration: Default/Config must be created within a ConfiguredStage',
+    );
+  });
+});
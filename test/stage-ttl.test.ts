@@ -0,0 +1,226 @@
+import { App, Duration, Stack, Stage } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { StageDeployment } from 'aws-cdk-lib/pipelines';
+import { loadInlineHandler } from './util';
+import { STAGE_TTL_EXTEND_TAG, StageTtl } from '../src/stage-ttl';
+
+describe('StageTtl', () => {
+  const stacks = () => {
+    const stage = new Stage(new App(), 'dev', {
+      env: { account: '210987654321', region: 'eu-west-1' },
+    });
+    new Stack(stage, 'api');
+    new Stack(stage, 'web');
+    return StageDeployment.fromStage(stage).stacks;
+  };
+
+  it('should check the time to live of the stacks on a schedule.', () => {
+    const stack = new Stack(new App(), 'pipeline', {
+      env: { account: '123456789012', region: 'us-east-1' },
+    });
+    new StageTtl(stack, 'DevTtl', {
+      stageName: 'dev',
+      stacks: stacks(),
+      duration: Duration.days(3),
+    });
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties('AWS::Events::Rule', {
+      ScheduleExpression: 'rate(15 minutes)',
+    });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: Match.objectLike({
+          STAGE_NAME: 'dev',
+          TTL_SECONDS: '259200',
+          WARNING_SECONDS: '86400',
+          SCHEDULE_SECONDS: '900',
+          EXTEND_TAG: STAGE_TTL_EXTEND_TAG,
+          DEPLOYED_PARAMETER: '/branch-pipelines/stage-ttl/pipeline/dev',
+        }),
+      },
+    });
+    const [handler] = Object.values(
+      template.findResources('AWS::Lambda::Function', {
+        Properties: { Handler: 'index.handler' },
+      }),
+    );
+    expect(handler.Properties.Code.ZipFile.length).toBeLessThan(4096);
+    expect(JSON.stringify(template.findResources('AWS::Lambda::Function'))).toMatch(
+      /dev-api.*cdk-hnb659fds-deploy-role-210987654321-eu-west-1.*dev-web/,
+    );
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: 'sts:AssumeRole',
+            Condition: {
+              StringEquals: { 'iam:ResourceTag/aws-cdk:bootstrap-role': 'deploy' },
+            },
+          }),
+        ]),
+      },
+    });
+  });
+
+  it('should notify the topic before the teardown.', () => {
+    const stack = new Stack();
+    const topicArn = 'arn:aws:sns:us-east-1:123456789012:ttl';
+    new StageTtl(stack, 'DevTtl', {
+      stageName: 'dev',
+      stacks: stacks(),
+      duration: Duration.days(3),
+      warningPeriod: Duration.hours(4),
+      notificationTopicArn: topicArn,
+    });
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: Match.objectLike({ WARNING_SECONDS: '14400', TOPIC_ARN: topicArn }),
+      },
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({ Action: 'sns:Publish', Resource: topicArn }),
+        ]),
+      },
+    });
+  });
+
+  it('should record when the pipeline deployed the stage.', () => {
+    const stack = new Stack(new App(), 'pipeline', {
+      env: { account: '123456789012', region: 'us-east-1' },
+    });
+    const ttl = new StageTtl(stack, 'DevTtl', {
+      stageName: 'dev',
+      stacks: stacks(),
+      duration: Duration.days(3),
+    });
+    expect(ttl.recordDeployment.commands.join('\n')).toContain(
+      'aws ssm put-parameter --name /branch-pipelines/stage-ttl/pipeline/dev',
+    );
+    Template.fromStack(stack).hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: 'ssm:GetParameter',
+            Resource: {
+              'Fn::Join': [
+                '',
+                Match.arrayWith([
+                  ':ssm:us-east-1:123456789012:parameter/branch-pipelines/stage-ttl/pipeline/dev',
+                ]),
+              ],
+            },
+          }),
+        ]),
+      },
+    });
+  });
+
+  describe('handler', () => {
+    const stack = new Stack();
+    new StageTtl(stack, 'DevTtl', {
+      stageName: 'dev',
+      stacks: stacks(),
+      duration: Duration.days(3),
+    });
+    const [handler] = Object.values(
+      Template.fromStack(stack).findResources('AWS::Lambda::Function', {
+        Properties: { Handler: 'index.handler', Runtime: 'nodejs20.x' },
+      }),
+    );
+    const env = {
+      STAGE_NAME: 'dev',
+      STACKS: JSON.stringify([
+        { stackName: 'dev-api', region: 'eu-west-1' },
+        { stackName: 'dev-web', region: 'eu-west-1' },
+      ]),
+      TTL_SECONDS: '259200',
+      WARNING_SECONDS: '86400',
+      SCHEDULE_SECONDS: '900',
+      EXTEND_TAG: STAGE_TTL_EXTEND_TAG,
+      TOPIC_ARN: 'arn:aws:sns:us-east-1:123456789012:ttl',
+      DEPLOYED_PARAMETER: '/branch-pipelines/stage-ttl/pipeline/dev',
+    };
+    interface Deployment {
+      deployed?: string;
+      stacks: Record<string, { LastUpdatedTime: string; Tags?: { Key: string; Value: string }[] }>;
+    }
+    const run = async (now: string, { deployed, stacks: described }: Deployment) => {
+      const { handler: check, sent } = loadInlineHandler(
+        handler.Properties.Code.ZipFile,
+        env,
+        now,
+        (command, input) => {
+          if (command === 'GetParameterCommand') {
+            if (deployed) return { Parameter: { Value: deployed } };
+            throw Object.assign(new Error('parameter not found'), { name: 'ParameterNotFound' });
+          }
+          if (command === 'DescribeStacksCommand') {
+            const stackDescription = described[input.StackName];
+            if (!stackDescription) throw new Error(`Stack ${input.StackName} does not exist`);
+            return { Stacks: [{ StackStatus: 'UPDATE_COMPLETE', ...stackDescription }] };
+          }
+          return {};
+        },
+      );
+      await check();
+      return sent.filter(({ command }) => command !== 'DescribeStacksCommand');
+    };
+    const updated = { LastUpdatedTime: '2024-01-01T00:00:00Z' };
+
+    it('should keep the stage while it was recently deployed or extended.', async () => {
+      expect(
+        await run('2024-01-10T00:00:00Z', {
+          deployed: '2024-01-09T00:00:00Z',
+          stacks: { 'dev-api': updated, 'dev-web': updated },
+        }),
+      ).toEqual([{ command: 'GetParameterCommand', input: { Name: env.DEPLOYED_PARAMETER } }]);
+      expect(
+        await run('2024-01-10T00:00:00Z', {
+          stacks: {
+            'dev-api': {
+              ...updated,
+              Tags: [{ Key: STAGE_TTL_EXTEND_TAG, Value: '2024-02-01' }],
+            },
+            'dev-web': updated,
+          },
+        }),
+      ).toEqual([expect.objectContaining({ command: 'GetParameterCommand' })]);
+    });
+
+    it('should warn once before the teardown.', async () => {
+      const deployment = { deployed: '2024-01-05T00:00:00Z', stacks: { 'dev-api': updated } };
+      expect(await run('2024-01-07T00:10:00Z', deployment)).toEqual([
+        expect.objectContaining({ command: 'GetParameterCommand' }),
+        {
+          command: 'PublishCommand',
+          input: expect.objectContaining({
+            TopicArn: env.TOPIC_ARN,
+            Subject: 'dev will be torn down',
+          }),
+        },
+      ]);
+      expect(await run('2024-01-07T00:20:00Z', deployment)).toEqual([
+        expect.objectContaining({ command: 'GetParameterCommand' }),
+      ]);
+    });
+
+    it('should destroy one stack per run, the last deployed first.', async () => {
+      const deleted = async (stacksLeft: Deployment['stacks']) =>
+        (
+          await run('2024-01-10T00:00:00Z', {
+            deployed: '2024-01-02T00:00:00Z',
+            stacks: stacksLeft,
+          })
+        )
+          .filter(({ command }) => command === 'DeleteStackCommand')
+          .map(({ input }) => input.StackName);
+
+      expect(await deleted({ 'dev-api': updated, 'dev-web': updated })).toEqual(['dev-web']);
+      expect(await deleted({ 'dev-api': updated })).toEqual(['dev-api']);
+      expect(await deleted({})).toEqual([]);
+    });
+  });
+});
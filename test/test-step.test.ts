@@ -0,0 +1,46 @@
+import { Arn, Stack } from 'aws-cdk-lib';
+import { BuildSpec, ComputeType } from 'aws-cdk-lib/aws-codebuild';
+import { CodePipelineSource } from 'aws-cdk-lib/pipelines';
+import { CoverageReportFormat, TestStep } from '../src/test-step';
+
+describe('TestStep', () => {
+  const input = CodePipelineSource.connection('owner/repo', 'main', {
+    connectionArn: Arn.format(
+      { service: 'codestar-connections', resource: 'connection' },
+      new Stack(),
+    ),
+  });
+
+  it('should publish test results and coverage to report groups.', () => {
+    const stack = new Stack();
+    const step = new TestStep(stack, { input });
+    expect(step.testReportGroup).toBeDefined();
+    expect(step.coverageReportGroup).toBeDefined();
+    expect(step.commands.join(', ')).toMatch('test');
+    expect(JSON.stringify(stack.resolve(step.partialBuildSpec?.toBuildSpec()))).toMatch('JUNITXML');
+  });
+
+  it('should not create report groups when reports are disabled.', () => {
+    const step = new TestStep(new Stack(), { input, reports: false, commands: ['make test'] });
+    expect(step.testReportGroup).toBeUndefined();
+    expect(step.partialBuildSpec).toBeUndefined();
+    expect(step.commands).toContain('make test');
+  });
+
+  it('should run with the given CodeBuild defaults.', () => {
+    const stack = new Stack();
+    const step = new TestStep(stack, {
+      input,
+      coverageReportFormat: CoverageReportFormat.COBERTURAXML,
+      coverageReportFile: 'coverage/cobertura-coverage.xml',
+      codeBuildDefaults: {
+        buildEnvironment: { computeType: ComputeType.LARGE },
+        partialBuildSpec: BuildSpec.fromObject({ cache: { paths: ['node_modules/**/*'] } }),
+      },
+    });
+    expect(step.buildEnvironment).toEqual({ computeType: ComputeType.LARGE });
+    const buildSpec = JSON.stringify(stack.resolve(step.partialBuildSpec?.toBuildSpec()));
+    expect(buildSpec).toMatch('node_modules/**/*');
+    expect(buildSpec).toMatch('COBERTURAXML');
+  });
+});
@@ -1,8 +1,46 @@
+import { App, Stack } from 'aws-cdk-lib';
+import { Bucket } from 'aws-cdk-lib/aws-s3';
+import { FileSet } from 'aws-cdk-lib/pipelines';
 import { TrimCloudAssemblyStep } from '../src/trim-cloud-assembly-step';
 
 describe('TrimCloudAssemblyStep', () => {
   it('should create without error.', () => {
-    const step = new TrimCloudAssemblyStep('someStack', 'yoooo');
-    expect(step.commands).not.toBeNull;
+    const stack = new Stack(new App(), 'test');
+    const step = new TrimCloudAssemblyStep({
+      artifactBucket: new Bucket(stack, 'Bucket'),
+      input: new FileSet('assembly'),
+      pipelineName: 'yoooo',
+    });
+    expect(step.commands).toContain('rm -rf asset.*');
+    expect(step.rolePolicyStatements).toHaveLength(1);
+    expect(stack.resolve(step.rolePolicyStatements?.[0].toStatementJson())).toMatchObject({
+      Action: 's3:PutObject',
+      Resource: {
+        'Fn::Join': ['', [{ 'Fn::GetAtt': [expect.any(String), 'Arn'] }, '/yoooo/*']],
+      },
+    });
+  });
+
+  it('should strip the configured patterns.', () => {
+    const stack = new Stack(new App(), 'test');
+    const step = new TrimCloudAssemblyStep({
+      artifactBucket: new Bucket(stack, 'Bucket'),
+      input: new FileSet('assembly'),
+      pipelineName: 'yoooo',
+      stripPatterns: ['asset.*', '*.assets.json'],
+    });
+    expect(step.commands).toContain('rm -rf asset.* *.assets.json');
+  });
+
+  it('should still look up the artifact bucket by the stack id.', () => {
+    const step = new TrimCloudAssemblyStep('test-pipeline-stack', 'yoooo');
+    expect(step.commands[0]).toMatch(/grep 'test-pipeline-stack-'.*\/yoooo\/Synth_Outp$/);
+    expect(step.rolePolicyStatements?.[0].toStatementJson()).toMatchObject({
+      Action: ['s3:ListAllMyBuckets', 's3:PutObject'],
+      Resource: '*',
+    });
+    expect(() => new TrimCloudAssemblyStep('test-pipeline-stack')).toThrowError(
+      'Improper configuration: the pipelineName is required with the stackId',
+    );
   });
 });
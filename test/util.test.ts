@@ -1,5 +1,16 @@
+import { execSync } from 'child_process';
 import path, { resolve } from 'path';
-import { defineSynthCommands, findUp, findUpMultiple } from '../src/util';
+import {
+  branchPatternMatches,
+  branchSlug,
+  branchSlugCommand,
+  defineCacheSpec,
+  defineSynthCommands,
+  defineTestCommands,
+  findUp,
+  findUpMultiple,
+  validateBranchPattern,
+} from '../src/util';
 
 describe('defineSynthCommands', () => {
   it('properly handles npm manager', () => {
@@ -52,6 +63,30 @@ describe('defineSynthCommands', () => {
     expect(commands.join(', ')).toMatch('cd test');
   });
 
+  it('logs into CodeArtifact before install', () => {
+    const commands = defineSynthCommands(
+      undefined,
+      undefined,
+      resolve(__dirname, './test-configs/package.json'),
+      true,
+      { repositoryArn: 'arn:aws:codeartifact:us-east-1:123456789012:repository/domain/repo' },
+    );
+    expect(commands[0]).toMatch('aws codeartifact login --tool npm --domain domain');
+    expect(commands[1]).toMatch('npm ci');
+  });
+
+  it('installs in frozen lockfile mode', () => {
+    const commands = defineSynthCommands(
+      undefined,
+      undefined,
+      resolve(__dirname, './test-configs/yarn.lock'),
+      true,
+      undefined,
+      true,
+    );
+    expect(commands.join(', ')).toMatch('yarn install --frozen-lockfile');
+  });
+
   it('no install required', () => {
     const commands = defineSynthCommands(
       undefined,
@@ -63,6 +98,59 @@ describe('defineSynthCommands', () => {
   });
 });
 
+describe('branchPatternMatches', () => {
+  it('matches any characters, including slashes, like EventBridge wildcards', () => {
+    expect(branchPatternMatches('feature/a', 'feature/*')).toBe(true);
+    expect(branchPatternMatches('feature/a/b', 'feature/*')).toBe(true);
+    expect(branchPatternMatches('bugfix/a', 'feature/*')).toBe(false);
+    expect(branchPatternMatches('feature.a', 'feature.*')).toBe(true);
+    expect(branchPatternMatches('featureXa', 'feature.*')).toBe(false);
+  });
+  it('rejects glob syntax other than the * wildcard', () => {
+    expect(() => validateBranchPattern('feature/{a,b}')).toThrowError(/Improper configuration/);
+    expect(() => validateBranchPattern('feature/?')).toThrowError(/Improper configuration/);
+    expect(() => validateBranchPattern('feature/**')).not.toThrow();
+  });
+});
+
+describe('branchSlugCommand', () => {
+  it('computes the same slug as branchSlug', () => {
+    const branchName = 'feature/a_b.c';
+    const slug = execSync(`echo ${branchSlugCommand('BRANCH_NAME')}`, {
+      env: { ...process.env, BRANCH_NAME: branchName },
+    });
+    expect(slug.toString().trim()).toEqual(branchSlug(branchName));
+  });
+});
+
+describe('defineCacheSpec', () => {
+  it('keys the cache by the lock file hash', () => {
+    const spec = defineCacheSpec('app', resolve(__dirname, './test-configs/yarn.lock'));
+    expect(spec.key).toMatch(/^yarn\.lock-\$\(codebuild-hash-files app\/.*yarn\.lock\)$/);
+    expect(spec.paths).toEqual(['/usr/local/share/.cache/yarn/**/*', 'app/node_modules/**/*']);
+  });
+});
+
+describe('defineTestCommands', () => {
+  it('defaults to the test script of the package manager', () => {
+    const commands = defineTestCommands(
+      'test',
+      undefined,
+      resolve(__dirname, './test-configs/yarn.lock'),
+    );
+    expect(commands).toEqual(['cd test', 'yarn install --no-immutable', 'yarn test']);
+  });
+  it('uses the given test commands', () => {
+    const commands = defineTestCommands(
+      undefined,
+      ['npm run lint', 'npm run test'],
+      resolve(__dirname, './test-configs/package.json'),
+      false,
+    );
+    expect(commands).toEqual(['npm run lint', 'npm run test']);
+  });
+});
+
 describe('findUp', () => {
   test('Starting at process.cwd()', () => {
     expect(findUp('README.md')).toMatch(/kikoda-cdk-constructs\/README.md$/);
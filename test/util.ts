@@ -25,3 +25,63 @@ function getMetadata(casm: CloudAssembly, type: string) {
   }
   return result;
 }
+
+/**
+ * A command sent by an AWS SDK client of an inline function.
+ */
+export interface SentCommand {
+  command: string;
+  input: any;
+}
+
+/**
+ * Load the inline code of a Lambda function with the AWS SDK clients replaced by mocks, the
+ * commands they send are recorded and answered by `respond`. The function runs in `env` at the
+ * fixed time `now` and its logs are collected.
+ */
+export function loadInlineHandler(
+  code: string,
+  env: Record<string, string>,
+  now: string,
+  respond: (command: string, input: any) => any,
+) {
+  const sent: SentCommand[] = [];
+  const logs: string[] = [];
+  const sdk = new Proxy(
+    {},
+    {
+      get: (_target, name: string) =>
+        name.endsWith('Client')
+          ? function client() {
+              return {
+                send: async ({ command, input }: SentCommand) => {
+                  sent.push({ command, input });
+                  return respond(command, input);
+                },
+              };
+            }
+          : function command(input: any) {
+              return { command: name, input };
+            },
+    },
+  );
+  const time = new Date(now).getTime();
+  class FixedDate extends Date {
+    static now() {
+      return time;
+    }
+    constructor(...args: any[]) {
+      if (args.length === 0) super(time);
+      else super(...(args as [string]));
+    }
+  }
+  const exports: { handler?: (event?: any) => Promise<void> } = {};
+  new Function('require', 'exports', 'process', 'console', 'Date', code)(
+    () => sdk,
+    exports,
+    { env },
+    { log: (message: string) => logs.push(message) },
+    FixedDate,
+  );
+  return { handler: exports.handler!, sent, logs };
+}